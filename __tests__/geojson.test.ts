@@ -0,0 +1,206 @@
+import { readGeoJSON, writeGeoJSON, validateGeoJSON } from '../src/utils/geojson';
+import { findImportConflicts, mergeImportedFarmData, rewindPolygonRings } from '../src/utils/importExport';
+import { FarmData, PolygonCollection, PolygonFeature } from '../src/utils/types';
+
+const square = (x: number, y: number, size: number) => [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]];
+
+const makePolygon = (id: string, type: 'farm' | 'paddock', coordinates: number[][][], parentId?: string): PolygonFeature => ({
+  type: 'Feature',
+  properties: { id, name: id, created: '', type, parentId },
+  geometry: { type: 'Polygon', coordinates },
+});
+
+const emptyFarmData = (polygons: PolygonFeature[] = []): FarmData => ({
+  polygons: { type: 'FeatureCollection', features: polygons },
+  livestockData: [],
+  infrastructure: { type: 'FeatureCollection', features: [] },
+  fences: { type: 'FeatureCollection', features: [] },
+});
+
+const noPolygons: PolygonCollection = { type: 'FeatureCollection', features: [] };
+
+const collection = (features: object[]) => JSON.stringify({ type: 'FeatureCollection', features });
+
+describe('GeoJSON validation', () => {
+  test('accepts a valid feature collection', () => {
+    expect(validateGeoJSON({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: null, geometry: { type: 'Polygon', coordinates: square(0, 0, 1) } }],
+    })).toEqual([]);
+  });
+
+  test('reports unclosed rings, short rings and unknown geometry types', () => {
+    const errors = validateGeoJSON({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 0]]] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'Circle', coordinates: [0, 0] } },
+      ],
+    });
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^Feature 1: .*end where it starts/);
+    expect(errors[1]).toMatch(/^Feature 2: .*at least 4 positions/);
+    expect(errors[2]).toMatch(/^Feature 3: geometry type/);
+  });
+
+  test('rejects projected coordinate systems', () => {
+    expect(validateGeoJSON({
+      type: 'FeatureCollection',
+      crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::28355' } },
+      features: [],
+    })[0]).toMatch(/EPSG::28355/);
+  });
+
+  test('rejects text that is not JSON', () => {
+    expect(readGeoJSON('not json', noPolygons).errors).toEqual(['The file is not valid JSON.']);
+  });
+});
+
+describe('GeoJSON import', () => {
+  test('classifies untyped polygons by containment and maps foreign properties', () => {
+    const { data, errors } = readGeoJSON(collection([
+      { type: 'Feature', properties: { Name: 'Home Block', PIC: 'qabc1234', Owner: 'J Smith' }, geometry: { type: 'Polygon', coordinates: square(0, 0, 0.01) } },
+      { type: 'Feature', properties: { name: 'Creek', description: 'Floods in winter', Livestock_Count: 40, livestock_type: 'Sheep' }, geometry: { type: 'Polygon', coordinates: square(0.002, 0.002, 0.003) } },
+    ]), noPolygons);
+
+    expect(errors).toEqual([]);
+    const [farm, paddock] = data!.polygons;
+    expect(farm.properties).toMatchObject({ type: 'farm', name: 'Home Block', propertyCode: 'QABC1234', owner: 'J Smith' });
+    expect(paddock.properties).toMatchObject({ type: 'paddock', name: 'Creek', parentId: farm.properties.id, notes: 'Floods in winter' });
+    expect(paddock.properties.area).toBeGreaterThan(0);
+    expect(data!.livestockData).toEqual([expect.objectContaining({ paddockId: paddock.properties.id, count: 40, type: 'sheep' })]);
+  });
+
+  test('places untyped polygons inside an existing farm as its paddocks', () => {
+    const existing: PolygonCollection = { type: 'FeatureCollection', features: [makePolygon('farm', 'farm', square(0, 0, 0.01))] };
+    const { data } = readGeoJSON(collection([
+      { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: square(0.001, 0.001, 0.002) } },
+    ]), existing);
+    expect(data!.polygons[0].properties).toMatchObject({ type: 'paddock', parentId: 'farm' });
+  });
+
+  test('swaps coordinates written latitude first', () => {
+    const { data } = readGeoJSON(collection([
+      { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [-33.5, 150.2] } },
+      { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: [[-33.5, 150.2], [-33.6, 150.3]] } },
+    ]), noPolygons);
+    expect(data!.fences[0].geometry.coordinates[0]).toEqual([150.2, -33.5]);
+    expect(data!.warnings).toContain('Coordinates were in latitude, longitude order and have been swapped.');
+  });
+
+  test('rejects coordinates that are out of range either way round', () => {
+    const { data, errors } = readGeoJSON(collection([
+      { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [500000, 6200000] } },
+    ]), noPolygons);
+    expect(data).toBeNull();
+    expect(errors[0]).toMatch(/outside the valid/);
+  });
+
+  test('imports typed points as infrastructure and skips the rest', () => {
+    const { data } = readGeoJSON(collection([
+      { type: 'Feature', properties: { type: 'Trough', status: 'needs repair' }, geometry: { type: 'Point', coordinates: [150, -33] } },
+      { type: 'Feature', properties: { type: 'tree' }, geometry: { type: 'Point', coordinates: [150, -33] } },
+    ]), noPolygons);
+    expect(data!.infrastructure).toHaveLength(1);
+    expect(data!.infrastructure[0].properties).toMatchObject({ type: 'trough', status: 'needs-repair', name: 'Trough 1' });
+    expect(data!.warnings[0]).toMatch(/^1 point without/);
+  });
+
+  test('splits multipolygons into separate polygons', () => {
+    const { data } = readGeoJSON(JSON.stringify({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'MultiPolygon', coordinates: [square(0, 0, 0.01), square(1, 1, 0.01)] },
+    }), noPolygons);
+    expect(data!.polygons.map(polygon => polygon.properties.type)).toEqual(['farm', 'farm']);
+  });
+});
+
+describe('GeoJSON conflicts and merging', () => {
+  const existing = emptyFarmData([
+    makePolygon('farm', 'farm', square(0, 0, 0.01)),
+    makePolygon('north', 'paddock', square(0, 0.005, 0.005), 'farm'),
+  ]);
+
+  test('finds features with the same ID and paddocks that overlap', () => {
+    const { data } = readGeoJSON(collection([
+      { type: 'Feature', id: 'north', properties: { type: 'paddock', parentId: 'farm' }, geometry: { type: 'Polygon', coordinates: square(0, 0.006, 0.004) } },
+      { type: 'Feature', properties: { type: 'paddock', name: 'Overlapping' }, geometry: { type: 'Polygon', coordinates: square(0.002, 0.004, 0.002) } },
+    ]), existing.polygons);
+
+    const conflicts = findImportConflicts(data!, existing);
+    expect(conflicts).toEqual([
+      expect.objectContaining({ importedId: 'north', existingId: 'north', reason: 'same-id' }),
+      expect.objectContaining({ importedName: 'Overlapping', existingId: 'north', reason: 'overlap' }),
+    ]);
+  });
+
+  test('replaces features with the same ID in place', () => {
+    const { data } = readGeoJSON(collection([
+      { type: 'Feature', id: 'north', properties: { type: 'paddock', name: 'North (surveyed)' }, geometry: { type: 'Polygon', coordinates: square(0, 0.006, 0.004) } },
+    ]), existing.polygons);
+
+    const merged = mergeImportedFarmData(existing, data!, 'replace');
+    expect(merged.polygons.features.map(feature => feature.properties?.name)).toEqual(['farm', 'North (surveyed)']);
+  });
+
+  test('keeps both by giving clashing imports a new ID', () => {
+    const { data } = readGeoJSON(collection([
+      { type: 'Feature', id: 'farm', properties: { type: 'farm' }, geometry: { type: 'Polygon', coordinates: square(1, 1, 0.01) } },
+      { type: 'Feature', properties: { type: 'paddock', parentId: 'farm', livestockCount: 12 }, geometry: { type: 'Polygon', coordinates: square(1.001, 1.001, 0.002) } },
+    ]), existing.polygons);
+
+    const merged = mergeImportedFarmData(existing, data!, 'keep-both');
+    const features = merged.polygons.features as PolygonFeature[];
+    expect(features).toHaveLength(4);
+    const importedFarm = features[2];
+    expect(importedFarm.properties.id).not.toBe('farm');
+    expect(features[3].properties.parentId).toBe(importedFarm.properties.id);
+    expect(merged.livestockData).toEqual([expect.objectContaining({ paddockId: features[3].properties.id, count: 12 })]);
+  });
+});
+
+describe('GeoJSON export', () => {
+  test('winds rings by the right-hand rule', () => {
+    const clockwise = [[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]];
+    const hole = [[0.2, 0.2], [0.8, 0.2], [0.8, 0.8], [0.2, 0.8], [0.2, 0.2]];
+    const [outer, inner] = rewindPolygonRings([clockwise, hole]);
+    expect(outer).toEqual([...clockwise].reverse());
+    expect(inner).toEqual([...hole].reverse());
+  });
+
+  test('round trips farms, paddocks, livestock, infrastructure and fences', () => {
+    const data: FarmData = {
+      polygons: {
+        type: 'FeatureCollection',
+        features: [
+          { ...makePolygon('farm', 'farm', square(0, 0, 0.01)), properties: { id: 'farm', name: 'Home', created: '2024-01-01', type: 'farm', propertyCode: 'QABC1234' } },
+          makePolygon('north', 'paddock', square(0, 0.005, 0.005), 'farm'),
+        ],
+      },
+      livestockData: [{ paddockId: 'north', count: 25, type: 'cattle', status: 'breeding', lastUpdated: '2024-02-01' }],
+      infrastructure: {
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties: { id: 'tank', name: 'Tank', created: '', type: 'tank', status: 'working', capacity: 5000 }, geometry: { type: 'Point', coordinates: [0.001, 0.001] } }],
+      },
+      fences: {
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties: { id: 'lane', name: 'Lane', created: '', material: 'hinge-joint', electric: true, condition: 'fair', farmId: 'farm' }, geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] } }],
+      },
+    };
+
+    const text = writeGeoJSON(data, 'Home');
+    expect(JSON.parse(text).name).toBe('Home');
+    expect(validateGeoJSON(JSON.parse(text))).toEqual([]);
+
+    const { data: imported } = readGeoJSON(text, noPolygons);
+    expect(imported!.polygons.map(polygon => [polygon.properties.id, polygon.properties.type, polygon.properties.parentId]))
+      .toEqual([['farm', 'farm', undefined], ['north', 'paddock', 'farm']]);
+    expect(imported!.polygons[0].properties.propertyCode).toBe('QABC1234');
+    expect(imported!.livestockData).toEqual([{ paddockId: 'north', count: 25, type: 'cattle', status: 'breeding', lastUpdated: '2024-02-01' }]);
+    expect(imported!.infrastructure[0].properties).toMatchObject({ id: 'tank', type: 'tank', capacity: 5000 });
+    expect(imported!.fences[0].properties).toMatchObject({ id: 'lane', material: 'hinge-joint', electric: true, condition: 'fair', farmId: 'farm' });
+    expect(imported!.warnings).toEqual([]);
+  });
+});
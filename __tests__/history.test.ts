@@ -0,0 +1,92 @@
+import { recordHistoryEntry, undoHistory, redoHistory } from '../src/utils/history';
+import { MAX_HISTORY_SIZE } from '../src/constants';
+import { HistoryEntry, HistoryStacks } from '../src/utils/types';
+
+const makeSnapshot = (overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  currentPolygon: [],
+  completedPolygons: { type: 'FeatureCollection', features: [] },
+  livestockData: [],
+  setbackZones: { type: 'FeatureCollection', features: [] },
+  infrastructure: { type: 'FeatureCollection', features: [] },
+  fences: { type: 'FeatureCollection', features: [] },
+  ...overrides,
+});
+
+const noHistory: HistoryStacks = { undo: [], redo: [] };
+
+describe('undo history', () => {
+  test('keeps one snapshot for repeated updates from the same action', () => {
+    const snapshot = makeSnapshot();
+    const stacks = recordHistoryEntry(recordHistoryEntry(noHistory, snapshot), { ...snapshot });
+    expect(stacks.undo).toEqual([snapshot]);
+    expect(stacks.undo[0]).toBe(snapshot);
+  });
+
+  test('keeps at most MAX_HISTORY_SIZE snapshots, dropping the oldest', () => {
+    const snapshots = Array.from({ length: MAX_HISTORY_SIZE + 5 }, () => makeSnapshot());
+    const stacks = snapshots.reduce(recordHistoryEntry, noHistory);
+    expect(stacks.undo).toHaveLength(MAX_HISTORY_SIZE);
+    expect(stacks.undo[0]).toBe(snapshots[5]);
+    expect(stacks.undo[MAX_HISTORY_SIZE - 1]).toBe(snapshots[MAX_HISTORY_SIZE + 4]);
+  });
+
+  test('undoes and redoes, and clears redo after a new edit', () => {
+    const before = makeSnapshot();
+    const after = makeSnapshot();
+
+    const undone = undoHistory(recordHistoryEntry(noHistory, before), after, false);
+    expect(undone.entry).toBe(before);
+    expect(undone.stacks).toEqual({ undo: [], redo: [after] });
+
+    const redone = redoHistory(undone.stacks, before, false);
+    expect(redone.entry).toBe(after);
+    expect(redone.stacks).toEqual({ undo: [before], redo: [] });
+
+    expect(recordHistoryEntry(undone.stacks, makeSnapshot()).redo).toEqual([]);
+  });
+
+  test('skips entries that would change nothing', () => {
+    const first = makeSnapshot();
+    const current = makeSnapshot({ currentPolygon: [{ id: 'point', coordinates: [0, 0] }] });
+    // Left over from a finished drawing: only the drawing points differ
+    const leftover = { ...current, currentPolygon: [] };
+
+    const step = undoHistory({ undo: [first, leftover], redo: [] }, current, false);
+    expect(step.entry).toBe(first);
+    expect(step.stacks.undo).toEqual([]);
+
+    // While drawing, the drawing points are part of what undo restores
+    expect(undoHistory({ undo: [first, leftover], redo: [] }, current, true).entry).toBe(leftover);
+
+    expect(undoHistory({ undo: [current], redo: [] }, current, false)).toEqual({ stacks: noHistory, entry: null });
+  });
+
+  test('restores infrastructure and fences', () => {
+    const before = makeSnapshot();
+    const withTrough = makeSnapshot({
+      ...before,
+      infrastructure: {
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties: { id: 'trough', name: 'Trough', created: '', type: 'trough', status: 'working' }, geometry: { type: 'Point', coordinates: [0, 0] } }],
+      },
+    });
+    const withFence = makeSnapshot({
+      ...withTrough,
+      fences: {
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties: { id: 'lane', name: 'Lane', created: '', material: 'netting', electric: false, condition: 'good' }, geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] } }],
+      },
+    });
+
+    const stacks = [before, withTrough].reduce(recordHistoryEntry, noHistory);
+    const undoFence = undoHistory(stacks, withFence, false);
+    expect(undoFence.entry!.fences.features).toEqual([]);
+    expect(undoFence.entry!.infrastructure).toBe(withTrough.infrastructure);
+
+    const undoTrough = undoHistory(undoFence.stacks, undoFence.entry!, false);
+    expect(undoTrough.entry!.infrastructure.features).toEqual([]);
+
+    const redoTrough = redoHistory(undoTrough.stacks, undoTrough.entry!, false);
+    expect(redoTrough.entry!.infrastructure).toBe(withTrough.infrastructure);
+  });
+});
@@ -0,0 +1,146 @@
+import { readKML, writeKML } from '../src/utils/kml';
+import { toByteArray } from 'base64-js';
+import { strToU8, zipSync } from 'fflate';
+import { readKMZ, writeKMZ, isZip } from '../src/utils/kmz';
+import { FarmData, PolygonCollection, PolygonFeature } from '../src/utils/types';
+
+const noPolygons: PolygonCollection = { type: 'FeatureCollection', features: [] };
+
+const kml = (placemarks: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <!-- exported from a mapping tool -->
+    <Folder>${placemarks}</Folder>
+  </Document>
+</kml>`;
+
+// A cadastral lot exported by a desktop GIS as a deflated KMZ, with its attributes as SchemaData
+const CADASTRE_KMZ_BASE64 = 'UEsDBBQAAAAIAAmGU118u00cTgEAAG4CAAAHAAAAZG9jLmttbG2Sy27CMBBF93yF5W4hjtPSlsoxaqFISFEb8fgAK7EgIrFT2xTSr+8koTy7m+s5unPlGTbcFzn6lsZmWoWYej5GUiU6zdQqxMvFpPeMh7zDNkABqWyI186VL4TsdjtPl1KtMusp6QgQJPACDPBYJ9tCKsc7CLF5spaFQEoUMsQjkQrrjMQoS88UZ/OsKHM5yWSeHtDocxFHrx8YuaoECRxEwoQz0jo25nEuEqjNpvHLtaO4fodObcIj7RBFs5gG9w99Rpq3tv2+d1KlMh0LJ/ghY10j25RLk4f47iZfQ1zG4/Rof2L+4ePpCPOvffXj+z69ZMlpPIiLZG3YWOfVSivO9NZJ86a3KhWmmlrOokxJYWbwM5wlWhtYm3DSctr3u73gqesjqDyfXotHbzBo9bUAjJFzK0bOh5CbCOQvXb0PclwInAE53QGrz4N3fgFQSwECFAMUAAAACAAJhlNdfLtNHE4BAABuAgAABwAAAAAAAAAAAAAAgAEAAAAAZG9jLmttbFBLBQYAAAAAAQABADUAAABzAQAAAAA=';
+
+describe('KML import', () => {
+  test('reads polygons with inner rings and ExtendedData', () => {
+    const { data, errors } = readKML(kml(`
+      <Placemark id="home">
+        <name>Home &amp; Hill</name>
+        <description><![CDATA[<table><tr><td>Surveyed 2019</td></tr></table>]]></description>
+        <ExtendedData>
+          <Data name="type"><value>farm</value></Data>
+          <Data name="owner"><value>J Smith</value></Data>
+        </ExtendedData>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>
+            150,-27,0 150.01,-27,0 150.01,-26.99,0 150,-26.99,0 150,-27,0
+          </coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>150.004,-26.996 150.006,-26.996 150.006,-26.994 150.004,-26.996</coordinates></LinearRing></innerBoundaryIs>
+        </Polygon>
+      </Placemark>`), noPolygons);
+
+    expect(errors).toEqual([]);
+    const [farm] = data!.polygons;
+    expect(farm.properties).toMatchObject({ id: 'home', name: 'Home & Hill', type: 'farm', owner: 'J Smith', notes: 'Surveyed 2019' });
+    expect(farm.geometry.coordinates).toHaveLength(2);
+    expect(farm.geometry.coordinates[0][0]).toEqual([150, -27]);
+  });
+
+  test('closes open rings and reads points and lines in a MultiGeometry', () => {
+    const { data } = readKML(kml(`
+      <Placemark>
+        <name>Block</name>
+        <Polygon><outerBoundaryIs><LinearRing><coordinates>150,-27 150.01,-27 150.01,-26.99 150,-26.99</coordinates></LinearRing></outerBoundaryIs></Polygon>
+      </Placemark>
+      <Placemark>
+        <name>Bore</name>
+        <ExtendedData><Data name="type"><value>tank</value></Data></ExtendedData>
+        <MultiGeometry>
+          <Point><coordinates>150.005,-26.995,0</coordinates></Point>
+        </MultiGeometry>
+      </Placemark>
+      <Placemark>
+        <name>Boundary Fence</name>
+        <gx:Track/>
+        <LineString><coordinates>150,-27 150.01,-27</coordinates></LineString>
+      </Placemark>`), noPolygons);
+
+    const ring = data!.polygons[0].geometry.coordinates[0];
+    expect(ring).toHaveLength(5);
+    expect(ring[4]).toEqual(ring[0]);
+    expect(data!.infrastructure[0].properties).toMatchObject({ name: 'Bore', type: 'tank' });
+    expect(data!.fences[0].properties).toMatchObject({ name: 'Boundary Fence', farmId: data!.polygons[0].properties.id });
+  });
+
+  test('reports bad documents', () => {
+    expect(readKML('<kml><Document></kml>', noPolygons).errors[0]).toMatch(/^The file is not valid XML/);
+    expect(readKML('<gpx></gpx>', noPolygons).errors).toEqual(['The file is not a KML document.']);
+    expect(readKML(kml('<Placemark><name>Empty</name></Placemark>'), noPolygons).errors).toEqual(['The file has no shapes to import.']);
+    expect(readKML(kml('<Placemark><Point><coordinates>-27,150</coordinates></Point></Placemark>'), noPolygons).errors[0])
+      .toMatch(/outside the valid/);
+  });
+});
+
+describe('KML export', () => {
+  const data: FarmData = {
+    polygons: {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { id: 'farm', name: 'Home <North>', created: '', type: 'farm', propertyCode: 'QABC1234', notes: 'Main block' },
+          geometry: { type: 'Polygon', coordinates: [[[0, 0], [0, 0.01], [0.01, 0.01], [0.01, 0], [0, 0]], [[0.002, 0.002], [0.004, 0.002], [0.004, 0.004], [0.002, 0.004], [0.002, 0.002]]] },
+        } as PolygonFeature,
+        {
+          type: 'Feature',
+          properties: { id: 'east', name: 'East', created: '', type: 'paddock', parentId: 'farm', purpose: 'Grazing' },
+          geometry: { type: 'Polygon', coordinates: [[[0.005, 0], [0.01, 0], [0.01, 0.01], [0.005, 0.01], [0.005, 0]]] },
+        } as PolygonFeature,
+      ],
+    },
+    livestockData: [{ paddockId: 'east', count: 30, type: 'sheep', status: 'healthy', lastUpdated: '2024-03-01' }],
+    infrastructure: { type: 'FeatureCollection', features: [] },
+    fences: {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { id: 'lane', name: 'Lane', created: '', material: 'netting', electric: false, condition: 'poor', farmId: 'farm' }, geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] } }],
+    },
+  };
+
+  test('writes a folder per farm with escaped names and styled placemarks', () => {
+    const text = writeKML(data, 'Home');
+    expect(text).toContain('<name>Home &lt;North&gt;</name>');
+    expect(text).toContain('<description>Main block</description>');
+    expect(text).toContain('<Data name="propertyCode"><value>QABC1234</value></Data>');
+    expect(text).toContain('<innerBoundaryIs>');
+    expect(text.match(/<Folder>/g)).toHaveLength(1);
+    expect(text).toContain('<styleUrl>#paddock</styleUrl>');
+  });
+
+  test('round trips through KML and KMZ', () => {
+    [readKML(writeKML(data, 'Home'), noPolygons), readKMZ(writeKMZ(data, 'Home'), noPolygons)].forEach(({ data: imported, errors }) => {
+      expect(errors).toEqual([]);
+      expect(imported!.polygons.map(polygon => [polygon.properties.id, polygon.properties.type, polygon.properties.parentId]))
+        .toEqual([['farm', 'farm', undefined], ['east', 'paddock', 'farm']]);
+      expect(imported!.polygons[0].properties).toMatchObject({ name: 'Home <North>', propertyCode: 'QABC1234', notes: 'Main block' });
+      expect(imported!.polygons[0].geometry.coordinates).toHaveLength(2);
+      expect(imported!.polygons[1].properties.purpose).toBe('Grazing');
+      expect(imported!.livestockData).toEqual([{ paddockId: 'east', count: 30, type: 'sheep', status: 'healthy', lastUpdated: '2024-03-01' }]);
+      expect(imported!.fences[0].properties).toMatchObject({ id: 'lane', material: 'netting', condition: 'poor', farmId: 'farm' });
+    });
+  });
+});
+
+describe('KMZ', () => {
+  test('loads a deflated cadastral KMZ as a farm', () => {
+    const bytes = toByteArray(CADASTRE_KMZ_BASE64);
+    expect(isZip(bytes)).toBe(true);
+    expect(isZip(strToU8('<kml/>'))).toBe(false);
+
+    const { data, errors } = readKMZ(bytes, noPolygons);
+    expect(errors).toEqual([]);
+    expect(data!.polygons).toHaveLength(1);
+    expect(data!.polygons[0].properties).toMatchObject({ id: 'lot1', name: 'Lot 1 RP12345', type: 'farm', propertyCode: 'QXYZ0001' });
+  });
+
+  test('reports archives without a KML document', () => {
+    expect(readKMZ(zipSync({ 'photo.jpg': new Uint8Array([1, 2, 3]) }), noPolygons).errors)
+      .toEqual(['The KMZ file has no KML document in it.']);
+    expect(readKMZ(strToU8('not a zip'), noPolygons).errors).toEqual(['The file is not a valid KMZ archive.']);
+  });
+});
@@ -0,0 +1,663 @@
+import {
+  calculatePolygonArea,
+  calculatePolygonPerimeter,
+  calculateGeodesicDistance,
+  formatArea,
+  formatDistance,
+  findOverlappingPaddocks,
+  trimPolygonToFreeArea,
+  isPaddockWithinFarm,
+  isPointInOrOnPolygon,
+  findSelfIntersections,
+  reorderPolygonPoints,
+  splitSelfIntersectingPolygon,
+  clipPolygonToBoundary,
+  isPointInPolygonRings,
+  calculatePolygonRingsArea,
+  getPolygonRingsCentroid,
+  canAddHoleToPolygon,
+  calculateMultiPolygonArea,
+  getPolygonCentroid,
+  getPolygonVisualCenter,
+  createLivestockAnnotations,
+  getMetresPerPixel,
+  snapToFeatures,
+  splitPolygonWithLine,
+  unionPolygons,
+  groupLivestockByPaddock,
+  simplifyPolygonRings,
+  countPolygonVertices,
+  bufferPolygon,
+  createSetbackZone,
+  subdivideIntoEqualAreas,
+  createFeatureIndex,
+  findFeaturesAtPoint,
+  calculateLineLength,
+  calculateBearing,
+  formatBearing,
+  getRingMidpoints,
+  insertRingVertex,
+  removeRingVertex,
+  getFarmWithPaddocks,
+  generateHeatmapData,
+  findPaddocksOutsideFarm,
+  movePaddockIntoFarm,
+  assignInfrastructureToPaddocks,
+  removePaddock,
+  summarizeFenceLengths,
+} from '../src/utils/mapUtils';
+import { buildSpatialIndex, searchSpatialIndex } from '../src/utils/spatialIndex';
+import { PolygonFeature, InfrastructureFeature, InfrastructureCollection, FenceFeature, FenceCollection } from '../src/utils/types';
+
+const makePaddock = (id: string, ring: number[][]): PolygonFeature => ({
+  type: 'Feature',
+  properties: { id, name: id, created: '', type: 'paddock', parentId: 'farm' },
+  geometry: { type: 'Polygon', coordinates: [ring] },
+});
+
+const makePoint = (id: string, coordinates: number[]): InfrastructureFeature => ({
+  type: 'Feature',
+  properties: { id, name: id, created: '', type: 'trough', status: 'working' },
+  geometry: { type: 'Point', coordinates },
+});
+
+const makeFence = (id: string, farmId: string, material: FenceFeature['properties']['material'], electric: boolean, coordinates: number[][]): FenceFeature => ({
+  type: 'Feature',
+  properties: { id, name: id, created: '', material, electric, condition: 'good', farmId },
+  geometry: { type: 'LineString', coordinates },
+});
+
+// ~1.1 km x 0.8 km block near the default map centre
+const SQUARE_RING = [
+  [-99.9, 41.5],
+  [-99.89, 41.5],
+  [-99.89, 41.51],
+  [-99.9, 41.51],
+  [-99.9, 41.5],
+];
+
+describe('geodesic measurement', () => {
+  test('area matches the WGS84 ellipsoidal area', () => {
+    // Reference values from GeographicLib
+    expect(calculatePolygonArea(SQUARE_RING)).toBeCloseTo(927267.86, -1);
+    expect(calculatePolygonArea([[0, 0], [1, 0], [1, 1], [0, 1]]) / 12308778361.47).toBeCloseTo(1, 4);
+  });
+
+  test('area does not depend on ring orientation', () => {
+    expect(calculatePolygonArea([...SQUARE_RING].reverse())).toBeCloseTo(calculatePolygonArea(SQUARE_RING), 6);
+  });
+
+  test('distance and perimeter match Vincenty / GeographicLib', () => {
+    expect(calculateGeodesicDistance([-99.9, 41.5], [-99.89, 41.51])).toBeCloseTo(1389.449, 2);
+    expect(calculateGeodesicDistance([-99.9, 41.5], [-99.9, 41.5])).toBe(0);
+    expect(calculatePolygonPerimeter(SQUARE_RING)).toBeCloseTo(3891.069, 2);
+  });
+
+  test('formats hectares, acres and distances', () => {
+    expect(formatArea(123456)).toBe('12.35 ha (30.51 ac)');
+    expect(formatDistance(845.2)).toBe('845 m');
+    expect(formatDistance(2450)).toBe('2.45 km');
+  });
+
+  test('line length sums segments without closing the line', () => {
+    const line = SQUARE_RING.slice(0, 3);
+    expect(calculateLineLength(line)).toBeCloseTo(
+      calculateGeodesicDistance(line[0], line[1]) + calculateGeodesicDistance(line[1], line[2]), 6
+    );
+    expect(calculateLineLength([[-99.9, 41.5]])).toBe(0);
+  });
+
+  test('bearings are clockwise from north and formatted with a compass point', () => {
+    expect(calculateBearing([-99.9, 41.5], [-99.9, 41.51])).toBeCloseTo(0, 6);
+    expect(calculateBearing([-99.9, 41.5], [-99.89, 41.5])).toBeCloseTo(90, 1);
+    expect(calculateBearing([-99.9, 41.5], [-99.91, 41.5])).toBeCloseTo(270, 1);
+    expect(formatBearing(47.3)).toBe('047° NE');
+    expect(formatBearing(359.7)).toBe('000° N');
+  });
+});
+
+describe('paddock overlap', () => {
+  const west = makePaddock('West', [[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0]]);
+
+  test('paddocks sharing only a fence line do not overlap', () => {
+    const east = [[0.01, 0], [0.02, 0], [0.02, 0.01], [0.01, 0.01], [0.01, 0]];
+    expect(findOverlappingPaddocks([east], [west])).toEqual([]);
+  });
+
+  test('overlapping paddocks are reported and can be trimmed', () => {
+    const shifted = [[0.005, 0], [0.02, 0], [0.02, 0.01], [0.005, 0.01], [0.005, 0]];
+    expect(findOverlappingPaddocks([shifted], [west])).toEqual([west]);
+    expect(findOverlappingPaddocks([shifted], [west], 'West')).toEqual([]);
+
+    const trimmed = trimPolygonToFreeArea([shifted], [west])!;
+    expect(Math.min(...trimmed[0].map(coord => coord[0]))).toBeCloseTo(0.01, 10);
+    expect(findOverlappingPaddocks(trimmed, [west])).toEqual([]);
+  });
+
+  test('a paddock entirely covered has no free area', () => {
+    const inside = [[0.002, 0.002], [0.004, 0.002], [0.004, 0.004], [0.002, 0.004]];
+    expect(trimPolygonToFreeArea([inside], [west])).toBeNull();
+  });
+});
+
+describe('paddock containment', () => {
+  // U-shaped farm: two arms joined along the bottom, open notch between x=0.01 and x=0.02
+  const U_FARM = [[
+    [0, 0], [0.03, 0], [0.03, 0.03], [0.02, 0.03], [0.02, 0.01],
+    [0.01, 0.01], [0.01, 0.03], [0, 0.03], [0, 0],
+  ]];
+
+  test('accepts a paddock inside one arm', () => {
+    expect(isPaddockWithinFarm([[[0.002, 0.015], [0.008, 0.015], [0.008, 0.025], [0.002, 0.025]]], U_FARM)).toBe(true);
+  });
+
+  test('rejects a paddock whose edge cuts across the notch', () => {
+    // Every vertex is inside the farm but the top edge spans the gap
+    const spanning = [[0.005, 0.005], [0.025, 0.005], [0.025, 0.02], [0.005, 0.02]];
+    expect(spanning.every(coord => isPointInOrOnPolygon(coord, U_FARM[0]))).toBe(true);
+    expect(isPaddockWithinFarm([spanning], U_FARM)).toBe(false);
+  });
+
+  test('accepts paddocks sharing the farm fence or touching the notch corners', () => {
+    expect(isPaddockWithinFarm([[[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0]]], U_FARM)).toBe(true);
+    expect(isPaddockWithinFarm([[[0, 0], [0.03, 0], [0.03, 0.01], [0, 0.01]]], U_FARM)).toBe(true);
+  });
+
+  test('clipping keeps the inside part of a paddock poking out of the farm', () => {
+    const pokingOut = [[0.002, 0.02], [0.008, 0.02], [0.008, 0.04], [0.002, 0.04]];
+    const clipped = clipPolygonToBoundary([pokingOut], U_FARM)!;
+    expect(Math.max(...clipped[0].map(coord => coord[1]))).toBeCloseTo(0.03, 10);
+    expect(isPaddockWithinFarm(clipped, U_FARM)).toBe(true);
+    expect(clipPolygonToBoundary([[[1, 1], [1.01, 1], [1.01, 1.01]]], U_FARM)).toBeNull();
+  });
+
+  test('rejects an edge running along the notch opening and out of the farm', () => {
+    expect(isPaddockWithinFarm([[[0.005, 0.01], [0.025, 0.01], [0.015, 0.02]]], U_FARM)).toBe(false);
+  });
+});
+
+describe('self-intersection', () => {
+  const BOW_TIE = [[0, 0], [0.01, 0.01], [0.01, 0], [0, 0.01]];
+
+  test('detects the crossing edges of a bow-tie', () => {
+    const intersections = findSelfIntersections(BOW_TIE);
+    expect(intersections).toHaveLength(1);
+    expect(intersections[0].segments).toEqual([0, 2]);
+    expect(intersections[0].point[0]).toBeCloseTo(0.005, 10);
+    expect(intersections[0].point[1]).toBeCloseTo(0.005, 10);
+  });
+
+  test('simple and closed rings have no self-intersections', () => {
+    expect(findSelfIntersections([[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0]])).toEqual([]);
+  });
+
+  test('detects a spike folding back on the previous edge', () => {
+    expect(findSelfIntersections([[0, 0], [0.02, 0], [0.01, 0], [0.01, 0.01]])).not.toEqual([]);
+  });
+
+  test('reordering yields a simple ring with the same vertices', () => {
+    const reordered = reorderPolygonPoints(BOW_TIE);
+    expect(reordered).toHaveLength(4);
+    expect(reordered![0]).toEqual(BOW_TIE[0]);
+    expect(findSelfIntersections(reordered!)).toEqual([]);
+  });
+
+  test('reordering gives up when points on one ray from the centre still fold back', () => {
+    expect(reorderPolygonPoints([[0, 0], [4, 0], [3, 3], [0, 4], [4, 4], [2.5, 2.5]])).toBeNull();
+  });
+
+  test('splitting yields two simple triangles', () => {
+    const pieces = splitSelfIntersectingPolygon(BOW_TIE);
+    expect(pieces).toHaveLength(2);
+    pieces.forEach(piece => expect(findSelfIntersections(piece[0])).toEqual([]));
+  });
+});
+
+describe('polygon holes', () => {
+  const OUTER = [[0, 0], [0.02, 0], [0.02, 0.02], [0, 0.02], [0, 0]];
+  const DAM = [[0.005, 0.005], [0.015, 0.005], [0.015, 0.015], [0.005, 0.015], [0.005, 0.005]];
+
+  test('points inside a hole are outside the polygon', () => {
+    expect(isPointInPolygonRings([0.01, 0.01], [OUTER, DAM])).toBe(false);
+    expect(isPointInPolygonRings([0.002, 0.01], [OUTER, DAM])).toBe(true);
+  });
+
+  test('holes are subtracted from the area', () => {
+    expect(calculatePolygonRingsArea([OUTER, DAM])).toBeCloseTo(
+      calculatePolygonRingsArea([OUTER]) * 0.75, -1
+    );
+  });
+
+  test('area-weighted centroid moves away from a hole', () => {
+    const offsetHole = [[0.002, 0.002], [0.01, 0.002], [0.01, 0.018], [0.002, 0.018], [0.002, 0.002]];
+    const [x, y] = getPolygonRingsCentroid([OUTER, offsetHole]);
+    expect(x).toBeGreaterThan(0.01);
+    expect(y).toBeCloseTo(0.01, 10);
+  });
+
+  test('paddocks may not cover a farm hole', () => {
+    const aroundDam = [[0.004, 0.004], [0.016, 0.004], [0.016, 0.016], [0.004, 0.016]];
+    expect(isPaddockWithinFarm([aroundDam], [OUTER, DAM])).toBe(false);
+    expect(isPaddockWithinFarm([aroundDam, DAM], [OUTER, DAM])).toBe(true);
+  });
+
+  test('holes must sit inside the shape and not overlap other holes', () => {
+    expect(canAddHoleToPolygon(DAM, [OUTER])).toBe(true);
+    expect(canAddHoleToPolygon([[0.01, 0.01], [0.03, 0.01], [0.03, 0.015]], [OUTER])).toBe(false);
+    expect(canAddHoleToPolygon([[0.01, 0.01], [0.012, 0.01], [0.012, 0.012]], [OUTER, DAM])).toBe(false);
+  });
+});
+
+describe('label placement', () => {
+  // L-shaped paddock whose centroid falls in the missing corner
+  const L_SHAPE = [
+    [0, 0], [0.02, 0], [0.02, 0.002], [0.002, 0.002], [0.002, 0.02], [0, 0.02], [0, 0],
+  ];
+
+  test('area-weighted centroid ignores vertex density', () => {
+    const dense = [[0, 0], [0.005, 0], [0.01, 0], [0.015, 0], [0.02, 0], [0.02, 0.02], [0, 0.02], [0, 0]];
+    const [x, y] = getPolygonCentroid(dense);
+    expect(x).toBeCloseTo(0.01, 10);
+    expect(y).toBeCloseTo(0.01, 10);
+  });
+
+  test('visual center stays inside a concave paddock', () => {
+    expect(isPointInPolygonRings(getPolygonCentroid(L_SHAPE), [L_SHAPE])).toBe(false);
+    expect(isPointInPolygonRings(getPolygonVisualCenter([L_SHAPE]), [L_SHAPE])).toBe(true);
+  });
+
+  test('visual center avoids holes', () => {
+    const outer = [[0, 0], [0.02, 0], [0.02, 0.02], [0, 0.02], [0, 0]];
+    const middle = [[0.004, 0.004], [0.016, 0.004], [0.016, 0.016], [0.004, 0.016], [0.004, 0.004]];
+    expect(isPointInPolygonRings(getPolygonVisualCenter([outer, middle]), [outer, middle])).toBe(true);
+  });
+
+  test('livestock markers are placed inside their paddock', () => {
+    const paddock = makePaddock('L', L_SHAPE);
+    const [annotation] = createLivestockAnnotations(
+      { type: 'FeatureCollection', features: [paddock] },
+      []
+    );
+    expect(isPointInPolygonRings(annotation.coordinates, [L_SHAPE])).toBe(true);
+  });
+});
+
+describe('snapping', () => {
+  const paddock = makePaddock('West', SQUARE_RING);
+
+  test('metres per pixel halves with each zoom level', () => {
+    expect(getMetresPerPixel(0, 0)).toBeCloseTo(78271.517, 3);
+    expect(getMetresPerPixel(41.5, 16) * 2).toBeCloseTo(getMetresPerPixel(41.5, 15), 10);
+  });
+
+  test('snaps to a nearby vertex before a nearby edge', () => {
+    const snap = snapToFeatures([-99.89995, 41.50003], [paddock], 10);
+    expect(snap).toEqual({ coordinates: [-99.9, 41.5], type: 'vertex', featureId: 'West' });
+  });
+
+  test('snaps onto the closest point of an edge', () => {
+    const snap = snapToFeatures([-99.895, 41.50004], [paddock], 10)!;
+    expect(snap.type).toBe('edge');
+    expect(snap.coordinates[0]).toBeCloseTo(-99.895, 10);
+    expect(snap.coordinates[1]).toBeCloseTo(41.5, 10);
+  });
+
+  test('ignores features beyond the tolerance or excluded', () => {
+    expect(snapToFeatures([-99.895, 41.5005], [paddock], 10)).toBeNull();
+    expect(snapToFeatures([-99.895, 41.50004], [paddock], 10, 'West')).toBeNull();
+  });
+});
+
+describe('splitting with a cut line', () => {
+  const SQUARE = [[0, 0], [0.02, 0], [0.02, 0.02], [0, 0.02], [0, 0]];
+
+  test('a straight cut yields two pieces that cover the paddock', () => {
+    const pieces = splitPolygonWithLine([SQUARE], [[0.005, -0.01], [0.005, 0.03]])!;
+    expect(pieces).toHaveLength(2);
+    pieces.forEach(piece => expect(findSelfIntersections(piece[0])).toEqual([]));
+    expect(calculatePolygonRingsArea(pieces[0]) / calculatePolygonRingsArea(pieces[1])).toBeCloseTo(3, 3);
+    expect(calculatePolygonRingsArea(pieces[0]) + calculatePolygonRingsArea(pieces[1]))
+      .toBeCloseTo(calculatePolygonRingsArea([SQUARE]), 0);
+  });
+
+  test('a bent cut between two boundary vertices keeps its bend', () => {
+    const pieces = splitPolygonWithLine([SQUARE], [[0, 0], [0.015, 0.005], [0.02, 0.02]])!;
+    expect(pieces).toHaveLength(2);
+    pieces.forEach(piece => {
+      expect(findSelfIntersections(piece[0])).toEqual([]);
+      expect(piece[0]).toContainEqual([0.015, 0.005]);
+    });
+  });
+
+  test('holes stay with the piece that contains them', () => {
+    const dam = [[0.012, 0.005], [0.015, 0.005], [0.015, 0.008], [0.012, 0.008], [0.012, 0.005]];
+    const pieces = splitPolygonWithLine([SQUARE, dam], [[0.01, -0.01], [0.01, 0.03]])!;
+    expect(pieces.filter(piece => piece.length === 2)).toHaveLength(1);
+    expect(splitPolygonWithLine([SQUARE, dam], [[0.013, -0.01], [0.013, 0.03]])).toBeNull();
+  });
+
+  test('rejects cuts that do not cross the paddock', () => {
+    expect(splitPolygonWithLine([SQUARE], [[0.005, 0.005], [0.01, 0.01]])).toBeNull();
+    expect(splitPolygonWithLine([SQUARE], [[0.005, -0.01], [0.005, 0.01]])).toBeNull();
+  });
+});
+
+describe('merging paddocks', () => {
+  const west = [[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0]];
+  const east = [[0.01, 0], [0.02, 0], [0.02, 0.01], [0.01, 0.01], [0.01, 0]];
+
+  test('paddocks sharing a fence merge into one polygon', () => {
+    const merged = unionPolygons([[west], [east]]);
+    expect(merged).toHaveLength(1);
+    expect(calculatePolygonRingsArea(merged[0])).toBeCloseTo(
+      calculatePolygonRingsArea([west]) + calculatePolygonRingsArea([east]), 0
+    );
+  });
+
+  test('paddocks touching only at a corner stay separate', () => {
+    const diagonal = [[0.01, 0.01], [0.02, 0.01], [0.02, 0.02], [0.01, 0.02], [0.01, 0.01]];
+    expect(unionPolygons([[west], [diagonal]])).toHaveLength(2);
+  });
+
+  test('livestock records reassigned to one paddock are combined', () => {
+    const grouped = groupLivestockByPaddock([
+      { paddockId: 'merged', count: 40, type: 'sheep', status: 'healthy', lastUpdated: '2024-01-01' },
+      { paddockId: 'merged', count: 100, type: 'cattle', status: 'breeding', lastUpdated: '2024-02-01' },
+    ]);
+    expect(grouped.get('merged')).toEqual({
+      paddockId: 'merged', count: 140, type: 'cattle', status: 'breeding', lastUpdated: '2024-02-01',
+    });
+  });
+});
+
+describe('simplification', () => {
+  // A square whose bottom edge wobbles by well under a metre
+  const wobbly = [
+    [0, 0], [0.002, 0.000001], [0.004, -0.000001], [0.006, 0.000002], [0.008, -0.000001],
+    [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0],
+  ];
+
+  test('removes vertices within the tolerance and keeps the corners', () => {
+    const simplified = simplifyPolygonRings([wobbly], 1);
+    expect(countPolygonVertices([wobbly])).toBe(8);
+    expect(countPolygonVertices(simplified)).toBe(4);
+    expect(simplified[0]).toEqual(expect.arrayContaining([[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01]]));
+  });
+
+  test('keeps everything with a tolerance smaller than the wobble', () => {
+    expect(countPolygonVertices(simplifyPolygonRings([wobbly], 0.05))).toBe(8);
+  });
+
+  test('keeps vertices shared with a neighbouring paddock', () => {
+    const neighbour = makePaddock('South', [
+      [0, 0], [0.002, 0.000001], [0.004, -0.000001], [0.006, 0.000002], [0.008, -0.000001],
+      [0.01, 0], [0.01, -0.01], [0, -0.01], [0, 0],
+    ]);
+    expect(countPolygonVertices(simplifyPolygonRings([wobbly], 1, [neighbour]))).toBe(8);
+  });
+});
+
+describe('buffering and setbacks', () => {
+  const area = calculatePolygonRingsArea([SQUARE_RING]);
+  const perimeter = calculatePolygonPerimeter(SQUARE_RING);
+
+  test('growing adds a band around the boundary', () => {
+    const grown = bufferPolygon([SQUARE_RING], 10);
+    expect(grown).toHaveLength(1);
+    // Straight sides add perimeter x distance, the rounded corners add roughly a circle
+    expect(calculateMultiPolygonArea(grown) / (area + perimeter * 10 + Math.PI * 100)).toBeCloseTo(1, 2);
+  });
+
+  test('shrinking removes a band inside the boundary', () => {
+    const shrunk = bufferPolygon([SQUARE_RING], -10);
+    expect(calculateMultiPolygonArea(shrunk) / (area - perimeter * 10 + 400)).toBeCloseTo(1, 2);
+    expect(bufferPolygon([SQUARE_RING], -1000)).toEqual([]);
+  });
+
+  test('setback zones are the band between the shape and its buffer', () => {
+    const inner = createSetbackZone([SQUARE_RING], -10);
+    expect(calculateMultiPolygonArea(inner) / (perimeter * 10 - 400)).toBeCloseTo(1, 2);
+    expect(isPaddockWithinFarm(inner[0], [SQUARE_RING])).toBe(true);
+
+    const outer = createSetbackZone([SQUARE_RING], 10);
+    expect(findOverlappingPaddocks(outer[0], [makePaddock('Square', SQUARE_RING)])).toEqual([]);
+  });
+});
+
+describe('equal-area subdivision', () => {
+  // Triangle, so equal-area strips are not equal-width strips
+  const TRIANGLE = [[0, 0], [0.02, 0], [0, 0.02], [0, 0]];
+  const total = calculatePolygonRingsArea([TRIANGLE]);
+
+  test('strips have equal areas and cover the farm', () => {
+    const strips = subdivideIntoEqualAreas([[TRIANGLE]], 4, 'strips', 0);
+    expect(strips).toHaveLength(4);
+    strips.forEach(strip => expect(calculatePolygonRingsArea(strip) / (total / 4)).toBeCloseTo(1, 3));
+    strips.forEach(strip => expect(isPaddockWithinFarm(strip, [TRIANGLE])).toBe(true));
+  });
+
+  test('strips follow the bearing, numbered from left to right', () => {
+    // Heading east, the left-hand strip is the northern one
+    const strips = subdivideIntoEqualAreas([[SQUARE_RING]], 2, 'strips', 90);
+    const [north, south] = strips.map(strip => getPolygonCentroid(strip[0]));
+    expect(north[1]).toBeGreaterThan(south[1]);
+    expect(north[0]).toBeCloseTo(south[0], 6);
+  });
+
+  test('grids handle counts that are not a perfect square', () => {
+    const cells = subdivideIntoEqualAreas([[TRIANGLE]], 5, 'grid', 30);
+    expect(cells).toHaveLength(5);
+    cells.forEach(cell => expect(calculatePolygonRingsArea(cell) / (total / 5)).toBeCloseTo(1, 3));
+  });
+});
+
+describe('spatial index and hit testing', () => {
+  test('finds exactly the boxes that intersect a query across many nodes', () => {
+    const entries = Array.from({ length: 200 }, (_, i) => {
+      const x = (i % 20) * 0.01;
+      const y = Math.floor(i / 20) * 0.01;
+      return { bbox: [x, y, x + 0.005, y + 0.005], item: i };
+    });
+    const index = buildSpatialIndex(entries, 4);
+
+    expect(searchSpatialIndex(index, [0.0575, 0.0375, 0.0575, 0.0375])).toEqual([]);
+    expect(searchSpatialIndex(index, [0.052, 0.032, 0.052, 0.032])).toEqual([65]);
+    expect(searchSpatialIndex(index, [0, 0, 0.015, 0.005]).sort((a, b) => a - b)).toEqual([0, 1]);
+  });
+
+  test('returns containing features smallest first', () => {
+    const farm: PolygonFeature = {
+      ...makePaddock('farm', [[0, 0], [0.02, 0], [0.02, 0.02], [0, 0.02], [0, 0]]),
+      properties: { id: 'farm', name: 'Farm', created: '', type: 'farm' },
+    };
+    const paddock = makePaddock('paddock', [[0.001, 0.001], [0.005, 0.001], [0.005, 0.005], [0.001, 0.005], [0.001, 0.001]]);
+    const other = makePaddock('other', [[0.01, 0.01], [0.015, 0.01], [0.015, 0.015], [0.01, 0.015], [0.01, 0.01]]);
+    const index = createFeatureIndex({ type: 'FeatureCollection', features: [farm, paddock, other] });
+
+    expect(findFeaturesAtPoint(index, [0.003, 0.003]).map(f => f.properties.id)).toEqual(['paddock', 'farm']);
+    expect(findFeaturesAtPoint(index, [0.008, 0.008]).map(f => f.properties.id)).toEqual(['farm']);
+    expect(findFeaturesAtPoint(index, [0.03, 0.03])).toEqual([]);
+  });
+});
+
+describe('inserting and deleting vertices', () => {
+  test('midpoints sit halfway along each edge', () => {
+    const midpoints = getRingMidpoints(SQUARE_RING);
+    expect(midpoints).toHaveLength(4);
+    expect(midpoints[0][0]).toBeCloseTo(-99.895, 9);
+    expect(midpoints[0][1]).toBeCloseTo(41.5, 9);
+  });
+
+  test('inserting a vertex keeps the ring closed', () => {
+    const ring = insertRingVertex(SQUARE_RING, 3, [-99.9, 41.505]);
+    expect(ring).toHaveLength(6);
+    expect(ring[4]).toEqual([-99.9, 41.505]);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+  });
+
+  test('deleting the first vertex moves the closing point too', () => {
+    const ring = removeRingVertex(SQUARE_RING, 0)!;
+    expect(ring).toEqual([SQUARE_RING[1], SQUARE_RING[2], SQUARE_RING[3], SQUARE_RING[1]]);
+  });
+
+  test('deleting is refused below three vertices', () => {
+    const triangle = removeRingVertex(SQUARE_RING, 2)!;
+    expect(removeRingVertex(triangle, 0)).toBeNull();
+  });
+});
+
+describe('multiple farms', () => {
+  const makeFarm = (id: string, ring: number[][]): PolygonFeature => ({
+    type: 'Feature',
+    properties: { id, name: id, created: '', type: 'farm' },
+    geometry: { type: 'Polygon', coordinates: [ring] },
+  });
+  const westFarm = makeFarm('west', [[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0]]);
+  const eastFarm = makeFarm('east', [[1, 0], [1.01, 0], [1.01, 0.01], [1, 0.01], [1, 0]]);
+  const eastPaddock = makePaddock('eastPaddock', [[1.002, 0.002], [1.008, 0.002], [1.008, 0.008], [1.002, 0.008], [1.002, 0.002]]);
+  eastPaddock.properties.parentId = 'east';
+  const polygons = { type: 'FeatureCollection' as const, features: [westFarm, eastFarm, eastPaddock] };
+
+  test('a farm is scoped to its own paddocks', () => {
+    expect(getFarmWithPaddocks(polygons, 'east').features.map(f => f.properties!.id)).toEqual(['east', 'eastPaddock']);
+    expect(getFarmWithPaddocks(polygons, 'west').features.map(f => f.properties!.id)).toEqual(['west']);
+  });
+
+  test('the heatmap covers the chosen farm rather than the first one', () => {
+    const livestock = [{ paddockId: 'eastPaddock', count: 500, type: 'cattle' as const, status: 'healthy' as const, lastUpdated: '' }];
+    const points = generateHeatmapData(polygons, livestock, 'east');
+    expect(points.length).toBeGreaterThan(0);
+    points.forEach(point => expect(point.coordinates[0]).toBeGreaterThanOrEqual(1));
+    expect(generateHeatmapData(polygons, livestock, 'west')).toEqual([]);
+  });
+});
+
+describe('re-validating paddocks after farm edits', () => {
+  const farm: PolygonFeature = {
+    type: 'Feature',
+    properties: { id: 'farm', name: 'Farm', created: '', type: 'farm' },
+    geometry: { type: 'Polygon', coordinates: [[[0, 0], [0.02, 0], [0.02, 0.01], [0, 0.01], [0, 0]]] },
+  };
+  const inside = makePaddock('inside', [[0.001, 0.001], [0.005, 0.001], [0.005, 0.005], [0.001, 0.005], [0.001, 0.001]]);
+  const straddling = makePaddock('straddling', [[0.018, 0.002], [0.024, 0.002], [0.024, 0.006], [0.018, 0.006], [0.018, 0.002]]);
+
+  test('flags only paddocks that stick out of their farm', () => {
+    const polygons = { type: 'FeatureCollection' as const, features: [farm, inside, straddling] };
+    expect(findPaddocksOutsideFarm(polygons).map(paddock => paddock.properties.id)).toEqual(['straddling']);
+  });
+
+  test('moving slides a paddock back inside without changing its shape', () => {
+    const moved = movePaddockIntoFarm(straddling.geometry.coordinates, farm.geometry.coordinates, [inside])!;
+    expect(moved).not.toBeNull();
+    expect(findPaddocksOutsideFarm({
+      type: 'FeatureCollection',
+      features: [farm, { ...straddling, geometry: { type: 'Polygon', coordinates: moved } }],
+    })).toEqual([]);
+    expect(calculatePolygonRingsArea(moved) / calculatePolygonRingsArea(straddling.geometry.coordinates)).toBeCloseTo(1, 4);
+  });
+
+  test('moving fails when the paddock cannot fit', () => {
+    const huge = makePaddock('huge', [[-0.01, -0.01], [0.03, -0.01], [0.03, 0.02], [-0.01, 0.02], [-0.01, -0.01]]);
+    expect(movePaddockIntoFarm(huge.geometry.coordinates, farm.geometry.coordinates)).toBeNull();
+  });
+});
+
+describe('infrastructure', () => {
+  const farm: PolygonFeature = {
+    type: 'Feature',
+    properties: { id: 'farm', name: 'Farm', created: '', type: 'farm' },
+    geometry: { type: 'Polygon', coordinates: [[[0, 0], [0.02, 0], [0.02, 0.01], [0, 0.01], [0, 0]]] },
+  };
+  const paddock = makePaddock('paddock', [[0.001, 0.001], [0.005, 0.001], [0.005, 0.005], [0.001, 0.005], [0.001, 0.001]]);
+  const infrastructure: InfrastructureCollection = {
+    type: 'FeatureCollection',
+    features: [makePoint('inPaddock', [0.003, 0.003]), makePoint('inFarm', [0.015, 0.005]), makePoint('outside', [0.05, 0.05])],
+  };
+
+  test('links each point to the farm and paddock containing it', () => {
+    const index = createFeatureIndex({ type: 'FeatureCollection', features: [farm, paddock] });
+    const linked = assignInfrastructureToPaddocks(infrastructure, index).features.map(point => point.properties);
+    expect(linked.map(({ farmId, paddockId }) => [farmId, paddockId])).toEqual([
+      ['farm', 'paddock'],
+      ['farm', undefined],
+      [undefined, undefined],
+    ]);
+  });
+
+  test('keeps the same collection when no link changes, and unlinks removed paddocks', () => {
+    const index = createFeatureIndex({ type: 'FeatureCollection', features: [farm, paddock] });
+    const linked = assignInfrastructureToPaddocks(infrastructure, index);
+    expect(assignInfrastructureToPaddocks(linked, index)).toBe(linked);
+
+    const withoutPaddock = assignInfrastructureToPaddocks(linked, createFeatureIndex({ type: 'FeatureCollection', features: [farm] }));
+    expect(withoutPaddock.features[0].properties.paddockId).toBeUndefined();
+    expect(withoutPaddock.features[0].properties.farmId).toBe('farm');
+  });
+});
+
+describe('paddock deletion', () => {
+  const farm: PolygonFeature = {
+    type: 'Feature',
+    properties: { id: 'farm', name: 'Farm', created: '', type: 'farm' },
+    geometry: { type: 'Polygon', coordinates: [[[0, 0], [0.02, 0], [0.02, 0.01], [0, 0.01], [0, 0]]] },
+  };
+  const east = makePaddock('east', [[0.01, 0], [0.02, 0], [0.02, 0.01], [0.01, 0.01], [0.01, 0]]);
+  const west = makePaddock('west', [[0, 0], [0.01, 0], [0.01, 0.01], [0, 0.01], [0, 0]]);
+  const makeSetback = (sourceId: string, paddock: PolygonFeature): PolygonFeature => ({
+    ...paddock,
+    properties: { id: `setback_${sourceId}`, name: `${sourceId} setback`, created: '', type: 'setback', parentId: 'farm', sourceId },
+  });
+
+  const records = {
+    completedPolygons: { type: 'FeatureCollection' as const, features: [farm, east, west] },
+    livestockData: [
+      { paddockId: 'east', count: 20, type: 'cattle' as const, status: 'healthy' as const, lastUpdated: '' },
+      { paddockId: 'west', count: 40, type: 'sheep' as const, status: 'healthy' as const, lastUpdated: '' },
+    ],
+    setbackZones: { type: 'FeatureCollection' as const, features: [makeSetback('east', east), makeSetback('west', west)] },
+    infrastructure: assignInfrastructureToPaddocks(
+      { type: 'FeatureCollection', features: [makePoint('eastTrough', [0.015, 0.005]), makePoint('westTrough', [0.005, 0.005])] },
+      createFeatureIndex({ type: 'FeatureCollection', features: [farm, east, west] })
+    ),
+  };
+
+  test('removes the paddock with its livestock and setback zone', () => {
+    const remaining = removePaddock(records, 'east');
+    expect(remaining.completedPolygons.features.map(feature => feature.properties?.id)).toEqual(['farm', 'west']);
+    expect(remaining.livestockData.map(data => data.paddockId)).toEqual(['west']);
+    expect(remaining.setbackZones.features.map(zone => zone.properties?.sourceId)).toEqual(['west']);
+  });
+
+  test('relinks infrastructure from the deleted paddock to the farm', () => {
+    const linked = removePaddock(records, 'east').infrastructure.features.map(point => point.properties);
+    expect(linked.map(({ farmId, paddockId }) => [farmId, paddockId])).toEqual([
+      ['farm', undefined],
+      ['farm', 'west'],
+    ]);
+  });
+});
+
+describe('fences', () => {
+  const fences: FenceCollection = {
+    type: 'FeatureCollection',
+    features: [
+      makeFence('north', 'farm', 'barbed-wire', false, [[0, 0.01], [0.01, 0.01]]),
+      makeFence('south', 'farm', 'barbed-wire', true, [[0, 0], [0.01, 0]]),
+      makeFence('lane', 'farm', 'netting', false, [[0.005, 0], [0.005, 0.002]]),
+      makeFence('elsewhere', 'other', 'steel-rail', false, [[1, 1], [1.01, 1]]),
+    ],
+  };
+
+  test('totals fence length by material for one farm, longest first', () => {
+    const summary = summarizeFenceLengths(fences, 'farm');
+    expect(summary.map(row => [row.material, row.count])).toEqual([['barbed-wire', 2], ['netting', 1]]);
+    expect(summary[0].length).toBeCloseTo(calculateGeodesicDistance([0, 0.01], [0.01, 0.01]) + calculateGeodesicDistance([0, 0], [0.01, 0]), 6);
+    expect(summary[0].electricLength).toBeCloseTo(calculateGeodesicDistance([0, 0], [0.01, 0]), 6);
+    expect(summary[1].electricLength).toBe(0);
+  });
+
+  test('covers every farm when no farm is given', () => {
+    expect(summarizeFenceLengths(fences).map(row => row.material)).toContain('steel-rail');
+    expect(summarizeFenceLengths(fences, 'none')).toEqual([]);
+  });
+});
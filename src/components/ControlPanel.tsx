@@ -1,13 +1,41 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { AppState, PolygonCollection, BottomMenuMode } from '../utils/types';
-import { getFarmBoundaries, getPaddocksForFarm } from '../utils/mapUtils';
+import {
+  AppState,
+  PolygonCollection,
+  PolygonFeature,
+  BottomMenuMode,
+  SimplificationPreview,
+  SubdivisionLayout,
+  MeasurementShape
+} from '../utils/types';
+import {
+  getFarmBoundaries,
+  getPaddocksForFarm,
+  calculatePolygonArea,
+  calculatePolygonPerimeter,
+  calculatePolygonRingsArea,
+  calculatePolygonRingsPerimeter,
+  calculateGeodesicDistance,
+  calculateLineLength,
+  calculateBearing,
+  formatArea,
+  formatDistance,
+  formatBearing
+} from '../utils/mapUtils';
 import { clearAllData, getStorageInfo } from '../utils/storage';
-import { COLORS } from '../constants';
+import {
+  COLORS,
+  SIMPLIFY_TOLERANCES,
+  SETBACK_DISTANCES,
+  SUBDIVIDE_BEARINGS,
+  SUBDIVIDE_MAX_PADDOCKS
+} from '../constants';
 
 interface ControlPanelProps {
   appState: AppState;
   currentPolygonLength: number;
+  currentPolygonCoordinates: number[][];
   completedPolygons: PolygonCollection;
   selectedFarmId: string | null;
   selectedPolygonId: string | null;
@@ -15,15 +43,68 @@ interface ControlPanelProps {
   onStartDrawingPaddock: () => void;
   onCompleteFarm: () => void;
   onCompletePaddock: () => void;
+  onStartDrawingHole: () => void;
+  onCompleteHole: () => void;
+  onStartSplitting: () => void;
+  onCompleteSplit: () => void;
+  onCompleteFence: () => void;
+  mergeSelectionCount: number;
+  onStartMerging: () => void;
+  onCompleteMerge: () => void;
+  simplifyTolerance: number;
+  simplificationPreview: SimplificationPreview | null;
+  onStartSimplifying: () => void;
+  onSimplifyToleranceChange: (tolerance: number) => void;
+  onApplySimplification: () => void;
+  setbackDistance: number;
+  setbackPreviewArea: number | null;
+  hasSetbackZone: boolean;
+  onStartSetback: () => void;
+  onSetbackDistanceChange: (distance: number) => void;
+  onApplySetback: () => void;
+  onRemoveSetback: () => void;
+  subdivideCount: number;
+  subdivideLayout: SubdivisionLayout;
+  subdivideBearing: number;
+  subdivisionPieceCount: number;
+  subdivisionPieceArea: number;
+  onStartSubdividing: () => void;
+  onSubdivideCountChange: (count: number) => void;
+  onSubdivideLayoutChange: (layout: SubdivisionLayout) => void;
+  onSubdivideBearingChange: (bearing: number) => void;
+  onApplySubdivision: () => void;
+  measurePoints: number[][];
+  measurementShape: MeasurementShape;
+  onStartMeasuring: () => void;
+  onMeasurementShapeChange: (shape: MeasurementShape) => void;
+  onUndoMeasurePoint: () => void;
+  onClearMeasurement: () => void;
+  onStopMeasuring: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  hasSelectedVertex: boolean;
+  onDeleteSelectedVertex: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onEditFarmInfo: () => void;
+  onEditPaddockInfo: () => void;
+  outOfBoundsPaddocks: PolygonFeature[];
+  onClipPaddock: (paddock: PolygonFeature) => void;
+  onMovePaddock: (paddock: PolygonFeature) => void;
+  onDeletePaddock: (paddock: PolygonFeature) => void;
   onEnterEditMode: () => void;
   onExitEditMode: () => void;
   onCancelDrawing: () => void;
   onClearAll: () => void;
+  onImportExport: () => void;
+  isSnappingEnabled: boolean;
+  onToggleSnapping: () => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
   appState,
   currentPolygonLength,
+  currentPolygonCoordinates,
   completedPolygons,
   selectedFarmId,
   selectedPolygonId,
@@ -31,33 +112,173 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onStartDrawingPaddock,
   onCompleteFarm,
   onCompletePaddock,
+  onStartDrawingHole,
+  onCompleteHole,
+  onStartSplitting,
+  onCompleteSplit,
+  onCompleteFence,
+  mergeSelectionCount,
+  onStartMerging,
+  onCompleteMerge,
+  simplifyTolerance,
+  simplificationPreview,
+  onStartSimplifying,
+  onSimplifyToleranceChange,
+  onApplySimplification,
+  setbackDistance,
+  setbackPreviewArea,
+  hasSetbackZone,
+  onStartSetback,
+  onSetbackDistanceChange,
+  onApplySetback,
+  onRemoveSetback,
+  subdivideCount,
+  subdivideLayout,
+  subdivideBearing,
+  subdivisionPieceCount,
+  subdivisionPieceArea,
+  onStartSubdividing,
+  onSubdivideCountChange,
+  onSubdivideLayoutChange,
+  onSubdivideBearingChange,
+  onApplySubdivision,
+  measurePoints,
+  measurementShape,
+  onStartMeasuring,
+  onMeasurementShapeChange,
+  onUndoMeasurePoint,
+  onClearMeasurement,
+  onStopMeasuring,
+  canUndo,
+  canRedo,
+  hasSelectedVertex,
+  onDeleteSelectedVertex,
+  onUndo,
+  onRedo,
+  onEditFarmInfo,
+  onEditPaddockInfo,
+  outOfBoundsPaddocks,
+  onClipPaddock,
+  onMovePaddock,
+  onDeletePaddock,
   onEnterEditMode,
   onExitEditMode,
   onCancelDrawing,
   onClearAll,
+  onImportExport,
+  isSnappingEnabled,
+  onToggleSnapping,
 }) => {
   const farmBoundaries = getFarmBoundaries(completedPolygons);
   const paddockCount = completedPolygons.features.filter(f => f.properties?.type === 'paddock').length;
   const selectedFarmPaddockCount = selectedFarmId ? getPaddocksForFarm(completedPolygons, selectedFarmId).length : 0;
+  const selectedFarm = farmBoundaries.find(farm => farm.properties.id === selectedFarmId) || farmBoundaries[0];
+  const selectedPolygon = completedPolygons.features.find(
+    feature => feature.properties && feature.properties.id === selectedPolygonId
+  );
+
+  const formatMeasurement = (area: number, perimeter: number) =>
+    `${formatArea(area)} | Perimeter: ${formatDistance(perimeter)}`;
+
+  // Prefer stored measurements, falling back to computing from all rings
+  const getMeasurementText = (rings: number[][][], area?: number, perimeter?: number) =>
+    formatMeasurement(area ?? calculatePolygonRingsArea(rings), perimeter ?? calculatePolygonRingsPerimeter(rings));
+
+  const formatAreaChange = (before: number, after: number) => {
+    const percent = before > 0 ? (after - before) / before * 100 : 0;
+    return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+  };
+
+  // Segment lengths of the measurement, including the closing segment of an area
+  const measureSegments = measurePoints.slice(1).map((point, index) =>
+    calculateGeodesicDistance(measurePoints[index], point)
+  );
+  if (measurementShape === 'area' && measurePoints.length >= 3) {
+    measureSegments.push(calculateGeodesicDistance(measurePoints[measurePoints.length - 1], measurePoints[0]));
+  }
 
   const getInstructionText = () => {
     switch (appState) {
+      case 'measuring':
+        return `Measuring | Points: ${measurePoints.length} | Tap map to measure, nothing is saved`;
       case 'drawing-farm':
         return `Drawing Farm Boundary | Points: ${currentPolygonLength} | Tap map to add points`;
       case 'drawing-paddock':
         return `Drawing Paddock | Points: ${currentPolygonLength} | Tap map to add points within farm`;
+      case 'drawing-cut':
+        return `Drawing Cut Line | Points: ${currentPolygonLength} | Draw a line across the paddock`;
+      case 'drawing-fence':
+        return `Drawing Fence | Points: ${currentPolygonLength} | Tap map to add points along the fence line`;
+      case 'subdividing':
+        return 'Subdividing | Choose the number of paddocks, layout and bearing';
+      case 'setback':
+        return selectedPolygon?.properties?.type === 'farm'
+          ? 'Setback Zone | Keep paddocks this far inside the farm boundary'
+          : 'Setback Zone | Keep paddocks this far away from the selected paddock';
+      case 'simplifying':
+        return 'Simplifying | Choose how far the boundary may move, in metres';
+      case 'merging':
+        return `Merging Paddocks | Selected: ${mergeSelectionCount} | Tap neighbouring paddocks to add or remove them`;
+      case 'drawing-hole':
+        return `Drawing Hole | Points: ${currentPolygonLength} | Tap map to outline the area to exclude`;
       case 'editing':
         return selectedPolygonId 
-          ? 'Drag red points to resize | Haptic feedback on drag' 
+          ? 'Drag red points to resize | Drag a small point to add a corner | Tap a corner, then Delete Corner to remove it' 
           : 'Tap on a polygon to select it';
       default:
         return '';
     }
   };
 
-  // Hide control panel when farm is completed - floating menu takes over
-  if (appState === 'paddock-mode' || appState === 'livestock-mode' || appState === 'heatmap-mode') {
-    return null;
+  const historyButtons = (canUndo || canRedo) && (
+    <View style={styles.historyRow}>
+      <TouchableOpacity
+        style={[styles.historyButton, !canUndo && styles.historyButtonDisabled]}
+        onPress={onUndo}
+        disabled={!canUndo}
+      >
+        <Text style={styles.historyButtonText}>↶ Undo</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.historyButton, !canRedo && styles.historyButtonDisabled]}
+        onPress={onRedo}
+        disabled={!canRedo}
+      >
+        <Text style={styles.historyButtonText}>↷ Redo</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // Paddocks a farm boundary edit left outside the farm, each with ways to fix it
+  const outOfBoundsList = outOfBoundsPaddocks.length > 0 && (
+    <View style={styles.warningContainer}>
+      <Text style={styles.warningTitle}>⚠ Paddocks outside their farm: {outOfBoundsPaddocks.length}</Text>
+      {outOfBoundsPaddocks.map(paddock => (
+        <View key={paddock.properties.id} style={styles.warningRow}>
+          <Text style={styles.warningName} numberOfLines={1}>{paddock.properties.name}</Text>
+          <TouchableOpacity style={styles.snapToggle} onPress={() => onClipPaddock(paddock)}>
+            <Text style={styles.snapToggleText}>Clip</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.snapToggle} onPress={() => onMovePaddock(paddock)}>
+            <Text style={styles.snapToggleText}>Move</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.snapToggle} onPress={() => onDeletePaddock(paddock)}>
+            <Text style={styles.snapToggleText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+
+  // Hide control panel when farm is completed - floating menu takes over, leaving only undo/redo and warnings
+  if (appState === 'paddock-mode' || appState === 'livestock-mode' || appState === 'heatmap-mode' ||
+    appState === 'infrastructure-mode' || appState === 'fence-mode') {
+    return historyButtons || outOfBoundsList ? (
+      <View style={styles.controlPanel}>
+        {historyButtons}
+        {outOfBoundsList}
+      </View>
+    ) : null;
   }
 
   return (
@@ -67,9 +288,35 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       {/* Step-by-step workflow */}
       <View style={styles.buttonContainer}>
         {appState === 'initial' && (
-          <TouchableOpacity style={styles.startButton} onPress={onStartDrawingFarm}>
-            <Text style={styles.buttonText}>Draw Farm Boundary</Text>
-          </TouchableOpacity>
+          <>
+            <TouchableOpacity style={styles.startButton} onPress={onStartDrawingFarm}>
+              <Text style={styles.buttonText}>Draw Farm Boundary</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.measureButton} onPress={onStartMeasuring}>
+              <Text style={styles.buttonText}>Measure</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.editButton} onPress={onImportExport}>
+              <Text style={styles.buttonText}>Import</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'measuring' && (
+          <>
+            <TouchableOpacity style={styles.doneButton} onPress={onStopMeasuring}>
+              <Text style={styles.buttonText}>Done</Text>
+            </TouchableOpacity>
+            {measurePoints.length > 0 && (
+              <TouchableOpacity style={styles.editButton} onPress={onUndoMeasurePoint}>
+                <Text style={styles.buttonText}>Undo Point</Text>
+              </TouchableOpacity>
+            )}
+            {measurePoints.length > 0 && (
+              <TouchableOpacity style={styles.clearButton} onPress={onClearMeasurement}>
+                <Text style={styles.buttonText}>Clear</Text>
+              </TouchableOpacity>
+            )}
+          </>
         )}
         
         {appState === 'drawing-farm' && (
@@ -89,6 +336,54 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <TouchableOpacity style={styles.doneButton} onPress={onExitEditMode}>
               <Text style={styles.buttonText}>Done Editing</Text>
             </TouchableOpacity>
+            {hasSelectedVertex && (
+              <TouchableOpacity style={styles.cancelButton} onPress={onDeleteSelectedVertex}>
+                <Text style={styles.buttonText}>Delete Corner</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygonId && (
+              <TouchableOpacity style={styles.holeButton} onPress={onStartDrawingHole}>
+                <Text style={styles.buttonText}>Add Hole</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygon?.properties?.type === 'paddock' && (
+              <TouchableOpacity style={styles.paddockButton} onPress={onEditPaddockInfo}>
+                <Text style={styles.buttonText}>Paddock Info</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygon?.properties?.type === 'paddock' && (
+              <TouchableOpacity style={styles.splitButton} onPress={onStartSplitting}>
+                <Text style={styles.buttonText}>Split</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygon?.properties?.type === 'paddock' && (
+              <TouchableOpacity style={styles.splitButton} onPress={onStartMerging}>
+                <Text style={styles.buttonText}>Merge</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygonId && (
+              <TouchableOpacity style={styles.editButton} onPress={onStartSimplifying}>
+                <Text style={styles.buttonText}>Simplify</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygon?.properties?.type === 'farm' && (
+              <TouchableOpacity style={styles.startButton} onPress={onEditFarmInfo}>
+                <Text style={styles.buttonText}>Farm Info</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygon?.properties?.type === 'farm' && (
+              <TouchableOpacity style={styles.paddockButton} onPress={onStartSubdividing}>
+                <Text style={styles.buttonText}>Subdivide</Text>
+              </TouchableOpacity>
+            )}
+            {selectedPolygonId && (
+              <TouchableOpacity style={styles.setbackButton} onPress={onStartSetback}>
+                <Text style={styles.buttonText}>Setback</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.measureButton} onPress={onStartMeasuring}>
+              <Text style={styles.buttonText}>Measure</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.cancelButton} onPress={onExitEditMode}>
               <Text style={styles.buttonText}>Cancel</Text>
             </TouchableOpacity>
@@ -105,23 +400,297 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </TouchableOpacity>
           </>
         )}
+
+        {appState === 'drawing-hole' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onCompleteHole}>
+              <Text style={styles.buttonText}>Complete Hole</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'drawing-cut' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onCompleteSplit}>
+              <Text style={styles.buttonText}>Split Paddock</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'drawing-fence' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onCompleteFence}>
+              <Text style={styles.buttonText}>Complete Fence</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'subdividing' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onApplySubdivision}>
+              <Text style={styles.buttonText}>Create Paddocks</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'setback' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onApplySetback}>
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+            {hasSetbackZone && (
+              <TouchableOpacity style={styles.clearButton} onPress={onRemoveSetback}>
+                <Text style={styles.buttonText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'simplifying' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onApplySimplification}>
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {appState === 'merging' && (
+          <>
+            <TouchableOpacity style={styles.completeButton} onPress={onCompleteMerge}>
+              <Text style={styles.buttonText}>Merge {mergeSelectionCount} Paddocks</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancelDrawing}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
 
+      {/* Undo/redo while drawing and editing */}
+      {appState !== 'measuring' && historyButtons}
+
+      {/* Snapping toggle while placing points */}
+      {(appState === 'drawing-farm' || appState === 'drawing-paddock' || appState === 'drawing-hole' ||
+        appState === 'drawing-cut' || appState === 'drawing-fence' || appState === 'editing' || appState === 'measuring') && (
+        <TouchableOpacity
+          style={[styles.snapToggle, isSnappingEnabled && styles.snapToggleActive]}
+          onPress={onToggleSnapping}
+        >
+          <Text style={[styles.snapToggleText, isSnappingEnabled && styles.snapToggleTextActive]}>
+            Snap to edges: {isSnappingEnabled ? 'On' : 'Off'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Instructions */}
       {getInstructionText() && (
         <Text style={styles.instructions}>{getInstructionText()}</Text>
       )}
 
+      {/* Live distance, bearing and area of the temporary measurement */}
+      {appState === 'measuring' && (
+        <>
+          <View style={styles.toleranceRow}>
+            {(['line', 'area'] as MeasurementShape[]).map(shape => (
+              <TouchableOpacity
+                key={shape}
+                style={[styles.snapToggle, shape === measurementShape && styles.snapToggleActive]}
+                onPress={() => onMeasurementShapeChange(shape)}
+              >
+                <Text style={[styles.snapToggleText, shape === measurementShape && styles.snapToggleTextActive]}>
+                  {shape === 'line' ? 'Distance' : 'Area'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {measurePoints.length >= 2 && (
+            <>
+              <Text style={styles.measurement}>
+                {measurementShape === 'area' && measurePoints.length >= 3
+                  ? `Perimeter: ${formatDistance(calculatePolygonPerimeter(measurePoints))}`
+                  : `Distance: ${formatDistance(calculateLineLength(measurePoints))}`
+                } | Bearing: {formatBearing(calculateBearing(
+                  measurePoints[measurePoints.length - 2],
+                  measurePoints[measurePoints.length - 1]
+                ))}
+              </Text>
+              <Text style={styles.info}>
+                Segments: {measureSegments.map(length => formatDistance(length)).join(', ')}
+              </Text>
+            </>
+          )}
+          {measurementShape === 'area' && measurePoints.length >= 3 && (
+            <Text style={styles.measurement}>Area: {formatArea(calculatePolygonArea(measurePoints))}</Text>
+          )}
+        </>
+      )}
+
+      {/* Simplification tolerance and its effect */}
+      {appState === 'simplifying' && (
+        <>
+          <View style={styles.toleranceRow}>
+            {SIMPLIFY_TOLERANCES.map(tolerance => (
+              <TouchableOpacity
+                key={tolerance}
+                style={[styles.snapToggle, tolerance === simplifyTolerance && styles.snapToggleActive]}
+                onPress={() => onSimplifyToleranceChange(tolerance)}
+              >
+                <Text style={[styles.snapToggleText, tolerance === simplifyTolerance && styles.snapToggleTextActive]}>
+                  {tolerance} m
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {simplificationPreview && (
+            <Text style={styles.measurement}>
+              Vertices: {simplificationPreview.vertexCountBefore} → {simplificationPreview.vertexCountAfter} | Area change: {
+                formatAreaChange(simplificationPreview.areaBefore, simplificationPreview.areaAfter)
+              }
+            </Text>
+          )}
+        </>
+      )}
+
+      {/* Subdivision layout */}
+      {appState === 'subdividing' && (
+        <>
+          <View style={styles.toleranceRow}>
+            <TouchableOpacity
+              style={styles.snapToggle}
+              onPress={() => onSubdivideCountChange(Math.max(2, subdivideCount - 1))}
+            >
+              <Text style={styles.snapToggleText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.measurement}>{subdivideCount} paddocks</Text>
+            <TouchableOpacity
+              style={styles.snapToggle}
+              onPress={() => onSubdivideCountChange(Math.min(SUBDIVIDE_MAX_PADDOCKS, subdivideCount + 1))}
+            >
+              <Text style={styles.snapToggleText}>+</Text>
+            </TouchableOpacity>
+            {(['strips', 'grid'] as SubdivisionLayout[]).map(layout => (
+              <TouchableOpacity
+                key={layout}
+                style={[styles.snapToggle, layout === subdivideLayout && styles.snapToggleActive]}
+                onPress={() => onSubdivideLayoutChange(layout)}
+              >
+                <Text style={[styles.snapToggleText, layout === subdivideLayout && styles.snapToggleTextActive]}>
+                  {layout === 'strips' ? 'Strips' : 'Grid'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.toleranceRow}>
+            {SUBDIVIDE_BEARINGS.map(bearing => (
+              <TouchableOpacity
+                key={bearing}
+                style={[styles.snapToggle, bearing === subdivideBearing && styles.snapToggleActive]}
+                onPress={() => onSubdivideBearingChange(bearing)}
+              >
+                <Text style={[styles.snapToggleText, bearing === subdivideBearing && styles.snapToggleTextActive]}>
+                  {bearing}°
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {subdivisionPieceCount > 0 && (
+            <Text style={styles.measurement}>
+              Preview: {subdivisionPieceCount} paddocks of about {formatArea(subdivisionPieceArea)}
+            </Text>
+          )}
+        </>
+      )}
+
+      {/* Setback width and the area it takes up */}
+      {appState === 'setback' && (
+        <>
+          <View style={styles.toleranceRow}>
+            {SETBACK_DISTANCES.map(distance => (
+              <TouchableOpacity
+                key={distance}
+                style={[styles.snapToggle, distance === setbackDistance && styles.snapToggleActive]}
+                onPress={() => onSetbackDistanceChange(distance)}
+              >
+                <Text style={[styles.snapToggleText, distance === setbackDistance && styles.snapToggleTextActive]}>
+                  {distance} m
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {setbackPreviewArea !== null && (
+            <Text style={styles.measurement}>Setback area: {formatArea(setbackPreviewArea)}</Text>
+          )}
+        </>
+      )}
+
+      {/* Live measurement of the shape being drawn */}
+      {(appState === 'drawing-farm' || appState === 'drawing-paddock' || appState === 'drawing-hole') && currentPolygonLength >= 3 && (
+        <Text style={styles.measurement}>
+          Area: {formatMeasurement(
+            calculatePolygonArea(currentPolygonCoordinates),
+            calculatePolygonPerimeter(currentPolygonCoordinates)
+          )}
+        </Text>
+      )}
+
+      {/* Live length of the fence being drawn */}
+      {appState === 'drawing-fence' && currentPolygonLength >= 2 && (
+        <Text style={styles.measurement}>
+          Length: {formatDistance(calculateLineLength(currentPolygonCoordinates))}
+        </Text>
+      )}
+
+      {/* Measurement of the polygon selected for editing */}
+      {appState === 'editing' && selectedPolygon && selectedPolygon.properties && (
+        <Text style={styles.measurement}>
+          {selectedPolygon.properties.name}: {getMeasurementText(
+            selectedPolygon.geometry.coordinates,
+            selectedPolygon.properties.area,
+            selectedPolygon.properties.perimeter
+          )}
+        </Text>
+      )}
+
+      {/* Paddocks needing attention after a farm edit */}
+      {appState === 'editing' && outOfBoundsList}
+
       {/* Status Info */}
       <View style={styles.statusContainer}>
         <Text style={styles.info}>
-          Farm: {farmBoundaries.length > 0 ? '✓ Complete' : 'Not created'} | Paddocks: {paddockCount}
+          Farms: {farmBoundaries.length > 0 ? farmBoundaries.length : 'Not created'} | Paddocks: {paddockCount}
         </Text>
         {selectedFarmId && (
           <Text style={styles.info}>
             Paddocks in farm: {selectedFarmPaddockCount}
           </Text>
         )}
+        {selectedFarm && (
+          <Text style={styles.info}>
+            {selectedFarm.properties.name}: {getMeasurementText(
+              selectedFarm.geometry.coordinates,
+              selectedFarm.properties.area,
+              selectedFarm.properties.perimeter
+            )}
+          </Text>
+        )}
       </View>
 
       {/* TEMPORARY: Storage Testing Button - REMOVE LATER */}
@@ -159,6 +728,7 @@ const styles = StyleSheet.create({
   },
   buttonContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
     marginBottom: 8,
   },
@@ -186,6 +756,30 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 6,
   },
+  holeButton: {
+    backgroundColor: COLORS.HOLE,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  setbackButton: {
+    backgroundColor: COLORS.SETBACK,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  splitButton: {
+    backgroundColor: COLORS.PADDOCK,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  measureButton: {
+    backgroundColor: COLORS.MEASUREMENT,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
   doneButton: {
     backgroundColor: COLORS.SUCCESS,
     paddingHorizontal: 16,
@@ -209,12 +803,87 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  historyRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  historyButton: {
+    borderWidth: 1,
+    borderColor: COLORS.INFO,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  historyButtonDisabled: {
+    borderColor: COLORS.BORDER,
+    opacity: 0.5,
+  },
+  historyButtonText: {
+    fontSize: 12,
+    color: COLORS.INFO,
+    fontWeight: '600',
+  },
+  toleranceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  snapToggle: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  snapToggleActive: {
+    borderColor: COLORS.INFO,
+    backgroundColor: COLORS.INFO,
+  },
+  snapToggleText: {
+    fontSize: 12,
+    color: COLORS.SECONDARY_TEXT,
+    fontWeight: '600',
+  },
+  snapToggleTextActive: {
+    color: COLORS.WHITE,
+  },
   instructions: {
     fontSize: 14,
     color: COLORS.SECONDARY_TEXT,
     fontStyle: 'italic',
     marginBottom: 4,
   },
+  measurement: {
+    fontSize: 13,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  warningContainer: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.OUT_OF_BOUNDS,
+    paddingLeft: 8,
+    marginBottom: 4,
+  },
+  warningTitle: {
+    fontSize: 13,
+    color: COLORS.OUT_OF_BOUNDS,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  warningName: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 8,
+  },
   statusContainer: {
     marginTop: 4,
   },
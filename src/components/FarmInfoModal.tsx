@@ -0,0 +1,363 @@
+import React, { useRef } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  Keyboard,
+  TouchableWithoutFeedback,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { FarmInfo } from '../utils/types';
+import { COLORS } from '../constants';
+import { formatArea, formatDistance } from '../utils/mapUtils';
+
+interface FarmInfoModalProps {
+  visible: boolean;
+  title?: string;
+  farmInfo: FarmInfo;
+  area?: number; // Square metres
+  perimeter?: number; // Metres
+  onFarmInfoChange: (info: FarmInfo) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const FarmInfoModal: React.FC<FarmInfoModalProps> = ({
+  visible,
+  title = 'Farm Information',
+  farmInfo,
+  area,
+  perimeter,
+  onFarmInfoChange,
+  onSave,
+  onCancel,
+}) => {
+  const ownerInputRef = useRef<TextInput>(null);
+  const propertyCodeInputRef = useRef<TextInput>(null);
+  const addressInputRef = useRef<TextInput>(null);
+  const notesInputRef = useRef<TextInput>(null);
+
+  const handleSave = () => {
+    if (!farmInfo.name.trim()) {
+      Alert.alert('Error', 'Please enter a farm name.');
+      return;
+    }
+    Keyboard.dismiss();
+    onSave();
+  };
+
+  const updateFarmInfo = (field: keyof FarmInfo, value: string) => {
+    onFarmInfoChange({
+      ...farmInfo,
+      [field]: value,
+    });
+  };
+
+  const handleBackdropPress = () => {
+    Keyboard.dismiss();
+    onCancel();
+  };
+
+  const handleNotesSubmit = () => {
+    Keyboard.dismiss();
+    if (farmInfo.name.trim()) {
+      handleSave();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <TouchableWithoutFeedback onPress={handleBackdropPress}>
+        <View style={styles.modalOverlay}>
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            style={styles.keyboardAvoidingView}
+          >
+            <TouchableWithoutFeedback onPress={() => {}}>
+              <View style={styles.modalWrapper}>
+                <View style={styles.modalContainer}>
+                  {/* Header */}
+                  <View style={styles.modalHeader}>
+                    <Text style={styles.modalTitle}>{title}</Text>
+                    <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+                      <Text style={styles.closeButtonText}>×</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {/* Content */}
+                  <ScrollView
+                    style={styles.modalContent}
+                    showsVerticalScrollIndicator={false}
+                    keyboardShouldPersistTaps="handled"
+                  >
+                    {/* Measurements */}
+                    {area !== undefined && perimeter !== undefined && (
+                      <View style={styles.measurementContainer}>
+                        <Text style={styles.measurementText}>Area: {formatArea(area)}</Text>
+                        <Text style={styles.measurementText}>Perimeter: {formatDistance(perimeter)}</Text>
+                      </View>
+                    )}
+
+                    {/* Farm Name */}
+                    <View style={styles.fieldContainer}>
+                      <Text style={styles.fieldLabel}>Farm Name *</Text>
+                      <TextInput
+                        style={styles.textInput}
+                        value={farmInfo.name}
+                        onChangeText={(text) => updateFarmInfo('name', text)}
+                        placeholder="Enter farm name"
+                        placeholderTextColor={COLORS.SECONDARY_TEXT}
+                        maxLength={50}
+                        autoCapitalize="words"
+                        autoCorrect={false}
+                        returnKeyType="next"
+                        onSubmitEditing={() => ownerInputRef.current?.focus()}
+                        blurOnSubmit={false}
+                      />
+                    </View>
+
+                    {/* Owner */}
+                    <View style={styles.fieldContainer}>
+                      <Text style={styles.fieldLabel}>Owner</Text>
+                      <TextInput
+                        ref={ownerInputRef}
+                        style={styles.textInput}
+                        value={farmInfo.owner}
+                        onChangeText={(text) => updateFarmInfo('owner', text)}
+                        placeholder="Enter owner or business name"
+                        placeholderTextColor={COLORS.SECONDARY_TEXT}
+                        maxLength={80}
+                        autoCapitalize="words"
+                        returnKeyType="next"
+                        onSubmitEditing={() => propertyCodeInputRef.current?.focus()}
+                        blurOnSubmit={false}
+                      />
+                    </View>
+
+                    {/* Property Identification Code */}
+                    <View style={styles.fieldContainer}>
+                      <Text style={styles.fieldLabel}>Property Identification Code (PIC)</Text>
+                      <TextInput
+                        ref={propertyCodeInputRef}
+                        style={styles.textInput}
+                        value={farmInfo.propertyCode}
+                        onChangeText={(text) =>
+                          updateFarmInfo('propertyCode', text.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+                        }
+                        placeholder="e.g. QABC1234"
+                        placeholderTextColor={COLORS.SECONDARY_TEXT}
+                        maxLength={12}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        returnKeyType="next"
+                        onSubmitEditing={() => addressInputRef.current?.focus()}
+                        blurOnSubmit={false}
+                      />
+                    </View>
+
+                    {/* Address */}
+                    <View style={styles.fieldContainer}>
+                      <Text style={styles.fieldLabel}>Address</Text>
+                      <TextInput
+                        ref={addressInputRef}
+                        style={styles.textInput}
+                        value={farmInfo.address}
+                        onChangeText={(text) => updateFarmInfo('address', text)}
+                        placeholder="Enter property address"
+                        placeholderTextColor={COLORS.SECONDARY_TEXT}
+                        maxLength={150}
+                        returnKeyType="next"
+                        onSubmitEditing={() => notesInputRef.current?.focus()}
+                        blurOnSubmit={false}
+                      />
+                    </View>
+
+                    {/* Notes */}
+                    <View style={styles.fieldContainer}>
+                      <Text style={styles.fieldLabel}>Notes</Text>
+                      <TextInput
+                        ref={notesInputRef}
+                        style={[styles.textInput, styles.textArea]}
+                        value={farmInfo.notes}
+                        onChangeText={(text) => updateFarmInfo('notes', text)}
+                        placeholder="Enter additional notes"
+                        placeholderTextColor={COLORS.SECONDARY_TEXT}
+                        multiline={true}
+                        numberOfLines={3}
+                        maxLength={200}
+                        textAlignVertical="top"
+                        returnKeyType="done"
+                        onSubmitEditing={handleNotesSubmit}
+                      />
+                    </View>
+                  </ScrollView>
+
+                  {/* Footer */}
+                  <View style={styles.modalFooter}>
+                    <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                      <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.saveButton,
+                        !farmInfo.name.trim() && styles.saveButtonDisabled
+                      ]}
+                      onPress={handleSave}
+                      disabled={!farmInfo.name.trim()}
+                    >
+                      <Text style={styles.saveButtonText}>Save Farm</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </View>
+            </TouchableWithoutFeedback>
+          </KeyboardAvoidingView>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: '100%',
+  },
+  modalWrapper: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalContainer: {
+    backgroundColor: COLORS.WHITE,
+    borderRadius: 16,
+    overflow: 'hidden',
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 5 },
+    shadowOpacity: 0.3,
+    shadowRadius: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BORDER,
+    backgroundColor: COLORS.WHITE,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  closeButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: COLORS.BORDER,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: COLORS.SECONDARY_TEXT,
+    fontWeight: 'bold',
+  },
+  modalContent: {
+    padding: 20,
+    maxHeight: 400,
+  },
+  measurementContainer: {
+    backgroundColor: COLORS.BACKGROUND,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  measurementText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: COLORS.WHITE,
+    color: COLORS.PRIMARY_TEXT,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BORDER,
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.BORDER,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: COLORS.SUCCESS,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: COLORS.BORDER,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default FarmInfoModal;
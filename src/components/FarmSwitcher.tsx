@@ -0,0 +1,112 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { PolygonFeature } from '../utils/types';
+import { COLORS } from '../constants';
+
+interface FarmSwitcherProps {
+  visible: boolean;
+  farms: PolygonFeature[];
+  selectedFarmId: string | null;
+  onSelectFarm: (farmId: string) => void;
+  onEditFarm: (farmId: string) => void;
+  onAddFarm: () => void;
+  onImportExport: () => void;
+}
+
+const FarmSwitcher: React.FC<FarmSwitcherProps> = ({
+  visible,
+  farms,
+  selectedFarmId,
+  onSelectFarm,
+  onEditFarm,
+  onAddFarm,
+  onImportExport,
+}) => {
+  if (!visible) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.menu}
+      >
+        {farms.map(farm => {
+          const isSelected = farm.properties.id === selectedFarmId;
+          return (
+            <TouchableOpacity
+              key={farm.properties.id}
+              style={[styles.farmItem, isSelected && styles.farmItemActive]}
+              // Tapping the selected farm again opens its details
+              onPress={() => isSelected ? onEditFarm(farm.properties.id) : onSelectFarm(farm.properties.id)}
+            >
+              <Text style={[styles.farmLabel, isSelected && styles.farmLabelActive]} numberOfLines={1}>
+                {farm.properties.name}{isSelected ? ' ✎' : ''}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={styles.addItem} onPress={onAddFarm}>
+          <Text style={styles.addLabel}>+ Add Farm</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.addItem} onPress={onImportExport}>
+          <Text style={styles.addLabel}>⇅ Import / Export</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 100,
+    left: 20,
+    right: 20,
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  menu: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.WHITE,
+    borderRadius: 20,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+  },
+  farmItem: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginHorizontal: 2,
+    maxWidth: 160,
+  },
+  farmItemActive: {
+    backgroundColor: COLORS.FARM_BOUNDARY,
+  },
+  farmLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  farmLabelActive: {
+    color: COLORS.WHITE,
+  },
+  addItem: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginHorizontal: 2,
+    borderWidth: 1,
+    borderColor: COLORS.FARM_BOUNDARY,
+  },
+  addLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.FARM_BOUNDARY,
+  },
+});
+
+export default FarmSwitcher;
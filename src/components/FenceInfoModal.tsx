@@ -0,0 +1,442 @@
+import React, { useRef } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  Keyboard,
+  TouchableWithoutFeedback,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { FenceInfo } from '../utils/types';
+import { FENCE_MATERIALS, FENCE_CONDITIONS, COLORS } from '../constants';
+import { formatDistance } from '../utils/mapUtils';
+
+interface FenceInfoModalProps {
+  visible: boolean;
+  title?: string;
+  fenceInfo: FenceInfo;
+  length?: number; // Metres
+  onFenceInfoChange: (info: FenceInfo) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onDelete?: () => void; // Shown when editing an existing fence
+}
+
+const FenceInfoModal: React.FC<FenceInfoModalProps> = ({
+  visible,
+  title = 'Fence Information',
+  fenceInfo,
+  length,
+  onFenceInfoChange,
+  onSave,
+  onCancel,
+  onDelete,
+}) => {
+  const wireCountInputRef = useRef<TextInput>(null);
+  const notesInputRef = useRef<TextInput>(null);
+
+  const handleSave = () => {
+    if (!fenceInfo.name.trim()) {
+      Alert.alert('Error', 'Please enter a fence name.');
+      return;
+    }
+    Keyboard.dismiss();
+    onSave();
+  };
+
+  const updateFenceInfo = <K extends keyof FenceInfo>(field: K, value: FenceInfo[K]) => {
+    onFenceInfoChange({
+      ...fenceInfo,
+      [field]: value,
+    });
+  };
+
+  const handleBackdropPress = () => {
+    Keyboard.dismiss();
+    onCancel();
+  };
+
+  const handleNameSubmit = () => {
+    wireCountInputRef.current?.focus();
+  };
+
+  const handleWireCountSubmit = () => {
+    notesInputRef.current?.focus();
+  };
+
+  const handleNotesSubmit = () => {
+    Keyboard.dismiss();
+    if (fenceInfo.name.trim()) {
+      handleSave();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <TouchableWithoutFeedback onPress={handleBackdropPress}>
+        <View style={styles.modalOverlay}>
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            style={styles.keyboardAvoidingView}
+          >
+            <TouchableWithoutFeedback onPress={() => {}}>
+              <View style={styles.modalWrapper}>
+                <View style={styles.modalContainer}>
+                {/* Header */}
+                <View style={styles.modalHeader}>
+                  <Text style={styles.modalTitle}>{title}</Text>
+                  <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+                    <Text style={styles.closeButtonText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {/* Content */}
+                <ScrollView 
+                  style={styles.modalContent}
+                  showsVerticalScrollIndicator={false}
+                  keyboardShouldPersistTaps="handled"
+                >
+                  {/* Measurements */}
+                  {length !== undefined && (
+                    <View style={styles.measurementContainer}>
+                      <Text style={styles.measurementText}>Length: {formatDistance(length)}</Text>
+                    </View>
+                  )}
+
+                  {/* Fence Name */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Fence Name *</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={fenceInfo.name}
+                      onChangeText={(text) => updateFenceInfo('name', text)}
+                      placeholder="Enter fence name"
+                      placeholderTextColor={COLORS.SECONDARY_TEXT}
+                      maxLength={50}
+                      autoCapitalize="words"
+                      autoCorrect={false}
+                      returnKeyType="next"
+                      onSubmitEditing={handleNameSubmit}
+                      blurOnSubmit={false}
+                    />
+                  </View>
+
+                  {/* Material */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Material</Text>
+                    <View style={styles.chipGrid}>
+                      {FENCE_MATERIALS.map(({ material, label }) => (
+                        <TouchableOpacity
+                          key={material}
+                          style={[
+                            styles.chip,
+                            fenceInfo.material === material && styles.chipSelected
+                          ]}
+                          onPress={() => updateFenceInfo('material', material)}
+                        >
+                          <Text style={[
+                            styles.chipText,
+                            fenceInfo.material === material && styles.chipTextSelected
+                          ]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {/* Wire Count */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Number of Wires</Text>
+                    <TextInput
+                      ref={wireCountInputRef}
+                      style={styles.textInput}
+                      value={fenceInfo.wireCount}
+                      onChangeText={(text) =>
+                        updateFenceInfo('wireCount', text.replace(/[^0-9]/g, ''))
+                      }
+                      placeholder="Enter number of wires"
+                      placeholderTextColor={COLORS.SECONDARY_TEXT}
+                      keyboardType="numeric"
+                      maxLength={2}
+                      returnKeyType="next"
+                      onSubmitEditing={handleWireCountSubmit}
+                      blurOnSubmit={false}
+                    />
+                  </View>
+
+                  {/* Electric */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Electric</Text>
+                    <View style={styles.chipGrid}>
+                      {[true, false].map(electric => (
+                        <TouchableOpacity
+                          key={electric ? 'electric' : 'plain'}
+                          style={[
+                            styles.chip,
+                            fenceInfo.electric === electric && styles.chipSelected
+                          ]}
+                          onPress={() => updateFenceInfo('electric', electric)}
+                        >
+                          <Text style={[
+                            styles.chipText,
+                            fenceInfo.electric === electric && styles.chipTextSelected
+                          ]}>
+                            {electric ? 'Yes' : 'No'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {/* Condition */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Condition</Text>
+                    <View style={styles.chipGrid}>
+                      {FENCE_CONDITIONS.map(({ condition, label, color }) => (
+                        <TouchableOpacity
+                          key={condition}
+                          style={[
+                            styles.chip,
+                            fenceInfo.condition === condition && { backgroundColor: color, borderColor: color }
+                          ]}
+                          onPress={() => updateFenceInfo('condition', condition)}
+                        >
+                          <Text style={[
+                            styles.chipText,
+                            fenceInfo.condition === condition && styles.chipTextSelected
+                          ]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {/* Notes */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Notes</Text>
+                    <TextInput
+                      ref={notesInputRef}
+                      style={[styles.textInput, styles.textArea]}
+                      value={fenceInfo.notes}
+                      onChangeText={(text) => updateFenceInfo('notes', text)}
+                      placeholder="Enter additional notes"
+                      placeholderTextColor={COLORS.SECONDARY_TEXT}
+                      multiline={true}
+                      numberOfLines={3}
+                      maxLength={200}
+                      textAlignVertical="top"
+                      returnKeyType="done"
+                      onSubmitEditing={handleNotesSubmit}
+                    />
+                  </View>
+                </ScrollView>
+
+                {/* Footer */}
+                <View style={styles.modalFooter}>
+                  {onDelete && (
+                    <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+                      <Text style={styles.saveButtonText}>Delete</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={[
+                      styles.saveButton,
+                      !fenceInfo.name.trim() && styles.saveButtonDisabled
+                    ]} 
+                    onPress={handleSave}
+                    disabled={!fenceInfo.name.trim()}
+                  >
+                    <Text style={styles.saveButtonText}>Save Fence</Text>
+                  </TouchableOpacity>
+                </View>
+                              </View>
+              </View>
+            </TouchableWithoutFeedback>
+          </KeyboardAvoidingView>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: '100%',
+  },
+  modalWrapper: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalContainer: {
+    backgroundColor: COLORS.WHITE,
+    borderRadius: 16,
+    overflow: 'hidden',
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 5 },
+    shadowOpacity: 0.3,
+    shadowRadius: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BORDER,
+    backgroundColor: COLORS.WHITE,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  closeButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: COLORS.BORDER,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: COLORS.SECONDARY_TEXT,
+    fontWeight: 'bold',
+  },
+  modalContent: {
+    padding: 20,
+    maxHeight: 400,
+  },
+  measurementContainer: {
+    backgroundColor: COLORS.BACKGROUND,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  measurementText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: COLORS.WHITE,
+    color: COLORS.PRIMARY_TEXT,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND,
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.FENCE,
+    borderColor: COLORS.FENCE,
+  },
+  chipText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: COLORS.WHITE,
+    fontWeight: '600',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BORDER,
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.BORDER,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  deleteButton: {
+    flex: 1,
+    backgroundColor: COLORS.ERROR,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: COLORS.SUCCESS,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: COLORS.BORDER,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default FenceInfoModal;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { FenceLengthSummary } from '../utils/types';
+import { FENCE_MATERIALS, COLORS } from '../constants';
+import { formatDistance } from '../utils/mapUtils';
+
+interface FenceSummaryProps {
+  visible: boolean;
+  farmName?: string;
+  summary: FenceLengthSummary[];
+}
+
+const FenceSummary: React.FC<FenceSummaryProps> = ({ visible, farmName, summary }) => {
+  if (!visible) return null;
+
+  const totalLength = summary.reduce((total, row) => total + row.length, 0);
+  const electricLength = summary.reduce((total, row) => total + row.electricLength, 0);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title} numberOfLines={1}>Fencing{farmName ? ` · ${farmName}` : ''}</Text>
+      {summary.length === 0 ? (
+        <Text style={styles.emptyText}>No fences drawn yet</Text>
+      ) : (
+        <>
+          {summary.map(row => (
+            <View key={row.material} style={styles.row}>
+              <Text style={styles.rowLabel}>
+                {FENCE_MATERIALS.find(option => option.material === row.material)?.label || row.material} ({row.count})
+              </Text>
+              <Text style={styles.rowValue}>{formatDistance(row.length)}</Text>
+            </View>
+          ))}
+          <View style={[styles.row, styles.totalRow]}>
+            <Text style={styles.totalLabel}>Total</Text>
+            <Text style={styles.totalLabel}>{formatDistance(totalLength)}</Text>
+          </View>
+          {electricLength > 0 && (
+            <Text style={styles.electricText}>⚡ {formatDistance(electricLength)} electric</Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 150,
+    right: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+    elevation: 8,
+    minWidth: 200,
+    maxWidth: 260,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 12,
+    color: COLORS.SECONDARY_TEXT,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 6,
+  },
+  rowLabel: {
+    fontSize: 12,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  rowValue: {
+    fontSize: 12,
+    color: COLORS.PRIMARY_TEXT,
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BORDER,
+    paddingTop: 6,
+    marginTop: 2,
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  electricText: {
+    fontSize: 12,
+    color: COLORS.SECONDARY_TEXT,
+    marginTop: 2,
+  },
+});
+
+export default FenceSummary;
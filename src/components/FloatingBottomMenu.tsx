@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
 import { BottomMenuMode } from '../utils/types';
 import { COLORS } from '../constants';
 
@@ -20,11 +20,17 @@ const FloatingBottomMenu: React.FC<FloatingBottomMenuProps> = ({
     { mode: 'paddock', label: 'Paddock' },
     { mode: 'livestock', label: 'Livestock' },
     { mode: 'heatmap', label: 'Heatmap' },
+    { mode: 'infrastructure', label: 'Infrastructure' },
+    { mode: 'fence', label: 'Fences' },
   ];
 
   return (
     <View style={styles.container}>
-      <View style={styles.menu}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.menu}
+      >
         {menuItems.map((item) => (
           <TouchableOpacity
             key={item.mode}
@@ -42,7 +48,7 @@ const FloatingBottomMenu: React.FC<FloatingBottomMenuProps> = ({
             </Text>
           </TouchableOpacity>
         ))}
-      </View>
+      </ScrollView>
     </View>
   );
 };
@@ -51,8 +57,8 @@ const styles = StyleSheet.create({
   container: {
     position: 'absolute',
     bottom: 30,
-    left: 0,
-    right: 0,
+    left: 20,
+    right: 20,
     alignItems: 'center',
     zIndex: 100,
   },
@@ -60,7 +66,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     backgroundColor: COLORS.WHITE,
     borderRadius: 25,
-    paddingHorizontal: 20,
+    paddingHorizontal: 12,
     paddingVertical: 10,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
@@ -73,10 +79,10 @@ const styles = StyleSheet.create({
   menuItem: {
     alignItems: 'center',
     justifyContent: 'center',
-    paddingHorizontal: 24,
+    paddingHorizontal: 16,
     paddingVertical: 12,
     borderRadius: 20,
-    marginHorizontal: 4,
+    marginHorizontal: 2,
     minWidth: 80,
   },
   menuItemActive: {
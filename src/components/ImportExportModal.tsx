@@ -0,0 +1,427 @@
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Keyboard,
+  TouchableWithoutFeedback,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { ImportPreview, ImportMergeStrategy, ExchangeFormat } from '../utils/types';
+import { EXCHANGE_FORMATS, COLORS } from '../constants';
+
+interface ImportExportModalProps {
+  visible: boolean;
+  farmName?: string;
+  exportFormat: ExchangeFormat;
+  importText: string;
+  importPreview: ImportPreview | null;
+  onExportFormatChange: (format: ExchangeFormat) => void;
+  onImportTextChange: (text: string) => void;
+  onExport: () => void;
+  onChooseImportFile: () => void;
+  onCheckImport: () => void;
+  onConfirmImport: (strategy: ImportMergeStrategy) => void;
+  onClearPreview: () => void;
+  onCancel: () => void;
+}
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// e.g. "1 farm, 4 paddocks, 2 infrastructure points and 3 fences"
+const describeImport = ({ data }: ImportPreview): string => {
+  const farmCount = data.polygons.filter(polygon => polygon.properties.type === 'farm').length;
+  const parts = [
+    pluralize(farmCount, 'farm'),
+    pluralize(data.polygons.length - farmCount, 'paddock'),
+    pluralize(data.infrastructure.length, 'infrastructure point'),
+    pluralize(data.fences.length, 'fence')
+  ];
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
+
+const ImportExportModal: React.FC<ImportExportModalProps> = ({
+  visible,
+  farmName,
+  exportFormat,
+  importText,
+  importPreview,
+  onExportFormatChange,
+  onImportTextChange,
+  onExport,
+  onChooseImportFile,
+  onCheckImport,
+  onConfirmImport,
+  onClearPreview,
+  onCancel,
+}) => {
+  const exportLabel = EXCHANGE_FORMATS.find(option => option.format === exportFormat)?.label;
+  const hasSameIdConflicts = importPreview?.conflicts.some(conflict => conflict.reason === 'same-id');
+
+  const handleBackdropPress = () => {
+    Keyboard.dismiss();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <TouchableWithoutFeedback onPress={handleBackdropPress}>
+        <View style={styles.modalOverlay}>
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            style={styles.keyboardAvoidingView}
+          >
+            <TouchableWithoutFeedback onPress={() => {}}>
+              <View style={styles.modalWrapper}>
+                <View style={styles.modalContainer}>
+                {/* Header */}
+                <View style={styles.modalHeader}>
+                  <Text style={styles.modalTitle}>Import / Export</Text>
+                  <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+                    <Text style={styles.closeButtonText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {/* Content */}
+                <ScrollView
+                  style={styles.modalContent}
+                  showsVerticalScrollIndicator={false}
+                  keyboardShouldPersistTaps="handled"
+                >
+                  {importPreview ? (
+                    <>
+                      {/* Review before merging */}
+                      <View style={styles.fieldContainer}>
+                        <Text style={styles.fieldLabel}>Ready to Import</Text>
+                        <Text style={styles.bodyText}>{describeImport(importPreview)}</Text>
+                      </View>
+
+                      {importPreview.data.warnings.length > 0 && (
+                        <View style={styles.fieldContainer}>
+                          <Text style={styles.fieldLabel}>Warnings</Text>
+                          {importPreview.data.warnings.map((warning, index) => (
+                            <Text key={index} style={styles.warningText}>⚠️ {warning}</Text>
+                          ))}
+                        </View>
+                      )}
+
+                      <View style={styles.fieldContainer}>
+                        <Text style={styles.fieldLabel}>Conflicts</Text>
+                        {importPreview.conflicts.length === 0 ? (
+                          <Text style={styles.bodyText}>None. Everything will be added alongside your existing data.</Text>
+                        ) : (
+                          importPreview.conflicts.map((conflict, index) => (
+                            <Text key={index} style={styles.conflictText}>
+                              • {conflict.importedName} {conflict.reason === 'same-id'
+                                ? `matches existing ${conflict.existingName}`
+                                : `overlaps ${conflict.existingName}`}
+                            </Text>
+                          ))
+                        )}
+                        {hasSameIdConflicts && (
+                          <Text style={styles.hintText}>
+                            Replace updates matching features with the imported ones. Keep Both adds the imported ones as copies.
+                          </Text>
+                        )}
+                      </View>
+                    </>
+                  ) : (
+                    <>
+                      {/* Export */}
+                      <View style={styles.fieldContainer}>
+                        <Text style={styles.fieldLabel}>Export</Text>
+                        <Text style={styles.bodyText}>
+                          Share all farms, paddocks, livestock, infrastructure and fences as a {exportLabel} file
+                          {farmName ? ` named ${farmName}` : ''}.
+                        </Text>
+                        <View style={styles.chipGrid}>
+                          {EXCHANGE_FORMATS.map(({ format, label }) => (
+                            <TouchableOpacity
+                              key={format}
+                              style={[
+                                styles.chip,
+                                exportFormat === format && styles.chipSelected
+                              ]}
+                              onPress={() => onExportFormatChange(format)}
+                            >
+                              <Text style={[
+                                styles.chipText,
+                                exportFormat === format && styles.chipTextSelected
+                              ]}>
+                                {label}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        <TouchableOpacity style={styles.actionButton} onPress={onExport}>
+                          <Text style={styles.actionButtonText}>Share {exportLabel}</Text>
+                        </TouchableOpacity>
+                      </View>
+
+                      {/* Import */}
+                      <View style={styles.fieldContainer}>
+                        <Text style={styles.fieldLabel}>Import</Text>
+                        <TouchableOpacity style={[styles.actionButton, styles.chooseFileButton]} onPress={onChooseImportFile}>
+                          <Text style={styles.actionButtonText}>Choose File</Text>
+                        </TouchableOpacity>
+                        <TextInput
+                          style={[styles.textInput, styles.textArea]}
+                          value={importText}
+                          onChangeText={onImportTextChange}
+                          placeholder="Or paste GeoJSON or KML here"
+                          placeholderTextColor={COLORS.SECONDARY_TEXT}
+                          multiline={true}
+                          autoCapitalize="none"
+                          autoCorrect={false}
+                          textAlignVertical="top"
+                        />
+                        <TouchableOpacity
+                          style={[styles.actionButton, !importText.trim() && styles.actionButtonDisabled]}
+                          onPress={onCheckImport}
+                          disabled={!importText.trim()}
+                        >
+                          <Text style={styles.actionButtonText}>Check Import</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </>
+                  )}
+                </ScrollView>
+
+                {/* Footer */}
+                <View style={styles.modalFooter}>
+                  {importPreview ? (
+                    <>
+                      <TouchableOpacity style={styles.cancelButton} onPress={onClearPreview}>
+                        <Text style={styles.cancelButtonText}>Back</Text>
+                      </TouchableOpacity>
+                      {hasSameIdConflicts ? (
+                        <>
+                          <TouchableOpacity style={styles.saveButton} onPress={() => onConfirmImport('keep-both')}>
+                            <Text style={styles.saveButtonText}>Keep Both</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity style={styles.replaceButton} onPress={() => onConfirmImport('replace')}>
+                            <Text style={styles.saveButtonText}>Replace</Text>
+                          </TouchableOpacity>
+                        </>
+                      ) : (
+                        <TouchableOpacity style={styles.saveButton} onPress={() => onConfirmImport('keep-both')}>
+                          <Text style={styles.saveButtonText}>Import</Text>
+                        </TouchableOpacity>
+                      )}
+                    </>
+                  ) : (
+                    <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                      <Text style={styles.cancelButtonText}>Close</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                </View>
+              </View>
+            </TouchableWithoutFeedback>
+          </KeyboardAvoidingView>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: '100%',
+  },
+  modalWrapper: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalContainer: {
+    backgroundColor: COLORS.WHITE,
+    borderRadius: 16,
+    overflow: 'hidden',
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 5 },
+    shadowOpacity: 0.3,
+    shadowRadius: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BORDER,
+    backgroundColor: COLORS.WHITE,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  closeButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: COLORS.BORDER,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: COLORS.SECONDARY_TEXT,
+    fontWeight: 'bold',
+  },
+  modalContent: {
+    padding: 20,
+    maxHeight: 400,
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 8,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+  },
+  hintText: {
+    fontSize: 12,
+    color: COLORS.SECONDARY_TEXT,
+    marginTop: 8,
+  },
+  warningText: {
+    fontSize: 13,
+    color: COLORS.WARNING,
+    marginBottom: 4,
+  },
+  conflictText: {
+    fontSize: 13,
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 4,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND,
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.INFO,
+    borderColor: COLORS.INFO,
+  },
+  chipText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: COLORS.WHITE,
+    fontWeight: '600',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 12,
+    backgroundColor: COLORS.WHITE,
+    color: COLORS.PRIMARY_TEXT,
+  },
+  textArea: {
+    height: 120,
+    textAlignVertical: 'top',
+  },
+  actionButton: {
+    backgroundColor: COLORS.INFO,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  chooseFileButton: {
+    marginTop: 0,
+    marginBottom: 10,
+  },
+  actionButtonDisabled: {
+    backgroundColor: COLORS.BORDER,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BORDER,
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.BORDER,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: COLORS.SUCCESS,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  replaceButton: {
+    flex: 1,
+    backgroundColor: COLORS.WARNING,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default ImportExportModal;
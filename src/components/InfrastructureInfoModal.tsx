@@ -0,0 +1,425 @@
+import React, { useRef } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  Keyboard,
+  TouchableWithoutFeedback,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { InfrastructureInfo } from '../utils/types';
+import { INFRASTRUCTURE_TYPES, INFRASTRUCTURE_STATUSES, COLORS } from '../constants';
+
+interface InfrastructureInfoModalProps {
+  visible: boolean;
+  title?: string;
+  infrastructureInfo: InfrastructureInfo;
+  location?: string; // Name of the paddock or farm containing the point
+  onInfrastructureInfoChange: (info: InfrastructureInfo) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onDelete?: () => void; // Shown when editing an existing point
+}
+
+const InfrastructureInfoModal: React.FC<InfrastructureInfoModalProps> = ({
+  visible,
+  title = 'Infrastructure Information',
+  infrastructureInfo,
+  location,
+  onInfrastructureInfoChange,
+  onSave,
+  onCancel,
+  onDelete,
+}) => {
+  const capacityInputRef = useRef<TextInput>(null);
+  const notesInputRef = useRef<TextInput>(null);
+
+  const capacityUnit = INFRASTRUCTURE_TYPES.find(option => option.type === infrastructureInfo.type)?.capacityUnit;
+
+  const handleSave = () => {
+    if (!infrastructureInfo.name.trim()) {
+      Alert.alert('Error', 'Please enter a name.');
+      return;
+    }
+    Keyboard.dismiss();
+    onSave();
+  };
+
+  const updateInfrastructureInfo = <K extends keyof InfrastructureInfo>(field: K, value: InfrastructureInfo[K]) => {
+    onInfrastructureInfoChange({
+      ...infrastructureInfo,
+      [field]: value,
+    });
+  };
+
+  const handleBackdropPress = () => {
+    Keyboard.dismiss();
+    onCancel();
+  };
+
+  const handleNameSubmit = () => {
+    if (capacityUnit) {
+      capacityInputRef.current?.focus();
+    } else {
+      notesInputRef.current?.focus();
+    }
+  };
+
+  const handleCapacitySubmit = () => {
+    notesInputRef.current?.focus();
+  };
+
+  const handleNotesSubmit = () => {
+    Keyboard.dismiss();
+    if (infrastructureInfo.name.trim()) {
+      handleSave();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <TouchableWithoutFeedback onPress={handleBackdropPress}>
+        <View style={styles.modalOverlay}>
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            style={styles.keyboardAvoidingView}
+          >
+            <TouchableWithoutFeedback onPress={() => {}}>
+              <View style={styles.modalWrapper}>
+                <View style={styles.modalContainer}>
+                {/* Header */}
+                <View style={styles.modalHeader}>
+                  <Text style={styles.modalTitle}>{title}</Text>
+                  <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+                    <Text style={styles.closeButtonText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {/* Content */}
+                <ScrollView 
+                  style={styles.modalContent}
+                  showsVerticalScrollIndicator={false}
+                  keyboardShouldPersistTaps="handled"
+                >
+                  {/* Location */}
+                  {location && (
+                    <View style={styles.locationContainer}>
+                      <Text style={styles.locationText}>Location: {location}</Text>
+                    </View>
+                  )}
+
+                  {/* Name */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Name *</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={infrastructureInfo.name}
+                      onChangeText={(text) => updateInfrastructureInfo('name', text)}
+                      placeholder="Enter a name"
+                      placeholderTextColor={COLORS.SECONDARY_TEXT}
+                      maxLength={50}
+                      autoCapitalize="words"
+                      autoCorrect={false}
+                      returnKeyType="next"
+                      onSubmitEditing={handleNameSubmit}
+                      blurOnSubmit={false}
+                    />
+                  </View>
+
+                  {/* Type */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Type</Text>
+                    <View style={styles.chipGrid}>
+                      {INFRASTRUCTURE_TYPES.map(({ type, label }) => (
+                        <TouchableOpacity
+                          key={type}
+                          style={[
+                            styles.chip,
+                            infrastructureInfo.type === type && styles.chipSelected
+                          ]}
+                          onPress={() => updateInfrastructureInfo('type', type)}
+                        >
+                          <Text style={[
+                            styles.chipText,
+                            infrastructureInfo.type === type && styles.chipTextSelected
+                          ]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {/* Status */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Status</Text>
+                    <View style={styles.chipGrid}>
+                      {INFRASTRUCTURE_STATUSES.map(({ status, label, color }) => (
+                        <TouchableOpacity
+                          key={status}
+                          style={[
+                            styles.chip,
+                            infrastructureInfo.status === status && { backgroundColor: color, borderColor: color }
+                          ]}
+                          onPress={() => updateInfrastructureInfo('status', status)}
+                        >
+                          <Text style={[
+                            styles.chipText,
+                            infrastructureInfo.status === status && styles.chipTextSelected
+                          ]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {/* Capacity, only for types that hold water or stock */}
+                  {capacityUnit && (
+                    <View style={styles.fieldContainer}>
+                      <Text style={styles.fieldLabel}>Capacity ({capacityUnit})</Text>
+                      <TextInput
+                        ref={capacityInputRef}
+                        style={styles.textInput}
+                        value={infrastructureInfo.capacity}
+                        onChangeText={(text) =>
+                          updateInfrastructureInfo('capacity', text.replace(/[^0-9]/g, ''))
+                        }
+                        placeholder={`Enter capacity in ${capacityUnit}`}
+                        placeholderTextColor={COLORS.SECONDARY_TEXT}
+                        keyboardType="numeric"
+                        maxLength={10}
+                        returnKeyType="next"
+                        onSubmitEditing={handleCapacitySubmit}
+                        blurOnSubmit={false}
+                      />
+                    </View>
+                  )}
+
+                  {/* Notes */}
+                  <View style={styles.fieldContainer}>
+                    <Text style={styles.fieldLabel}>Notes</Text>
+                    <TextInput
+                      ref={notesInputRef}
+                      style={[styles.textInput, styles.textArea]}
+                      value={infrastructureInfo.notes}
+                      onChangeText={(text) => updateInfrastructureInfo('notes', text)}
+                      placeholder="Enter additional notes"
+                      placeholderTextColor={COLORS.SECONDARY_TEXT}
+                      multiline={true}
+                      numberOfLines={3}
+                      maxLength={200}
+                      textAlignVertical="top"
+                      returnKeyType="done"
+                      onSubmitEditing={handleNotesSubmit}
+                    />
+                  </View>
+                </ScrollView>
+
+                {/* Footer */}
+                <View style={styles.modalFooter}>
+                  {onDelete && (
+                    <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+                      <Text style={styles.saveButtonText}>Delete</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={[
+                      styles.saveButton,
+                      !infrastructureInfo.name.trim() && styles.saveButtonDisabled
+                    ]} 
+                    onPress={handleSave}
+                    disabled={!infrastructureInfo.name.trim()}
+                  >
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+                              </View>
+              </View>
+            </TouchableWithoutFeedback>
+          </KeyboardAvoidingView>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: '100%',
+  },
+  modalWrapper: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalContainer: {
+    backgroundColor: COLORS.WHITE,
+    borderRadius: 16,
+    overflow: 'hidden',
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 5 },
+    shadowOpacity: 0.3,
+    shadowRadius: 10,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BORDER,
+    backgroundColor: COLORS.WHITE,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  closeButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: COLORS.BORDER,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: COLORS.SECONDARY_TEXT,
+    fontWeight: 'bold',
+  },
+  modalContent: {
+    padding: 20,
+    maxHeight: 400,
+  },
+  locationContainer: {
+    backgroundColor: COLORS.BACKGROUND,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  locationText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: COLORS.WHITE,
+    color: COLORS.PRIMARY_TEXT,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND,
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.INFRASTRUCTURE,
+    borderColor: COLORS.INFRASTRUCTURE,
+  },
+  chipText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: COLORS.WHITE,
+    fontWeight: '600',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BORDER,
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.BORDER,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  deleteButton: {
+    flex: 1,
+    backgroundColor: COLORS.ERROR,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: COLORS.SUCCESS,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: COLORS.BORDER,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default InfrastructureInfoModal;
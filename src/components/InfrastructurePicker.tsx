@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { InfrastructureType } from '../utils/types';
+import { INFRASTRUCTURE_TYPES, COLORS } from '../constants';
+
+interface InfrastructurePickerProps {
+  visible: boolean;
+  selectedType: InfrastructureType;
+  onSelectType: (type: InfrastructureType) => void;
+}
+
+const InfrastructurePicker: React.FC<InfrastructurePickerProps> = ({
+  visible,
+  selectedType,
+  onSelectType,
+}) => {
+  if (!visible) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.menu}
+      >
+        <Text style={styles.hint}>Tap map to place:</Text>
+        {INFRASTRUCTURE_TYPES.map(({ type, label }) => {
+          const isSelected = type === selectedType;
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.typeItem, isSelected && styles.typeItemActive]}
+              onPress={() => onSelectType(type)}
+            >
+              <Text style={[styles.typeLabel, isSelected && styles.typeLabelActive]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 150,
+    left: 20,
+    right: 20,
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  menu: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.WHITE,
+    borderRadius: 20,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: COLORS.BORDER,
+  },
+  hint: {
+    fontSize: 13,
+    color: COLORS.SECONDARY_TEXT,
+    marginHorizontal: 6,
+  },
+  typeItem: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginHorizontal: 2,
+  },
+  typeItemActive: {
+    backgroundColor: COLORS.INFRASTRUCTURE,
+  },
+  typeLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.PRIMARY_TEXT,
+  },
+  typeLabelActive: {
+    color: COLORS.WHITE,
+  },
+});
+
+export default InfrastructurePicker;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { TouchableOpacity, Text, StyleSheet } from 'react-native';
+import { COLORS } from '../constants';
+
+interface MeasureButtonProps {
+  visible: boolean;
+  onPress: () => void;
+}
+
+const MeasureButton: React.FC<MeasureButtonProps> = ({
+  visible,
+  onPress,
+}) => {
+  if (!visible) return null;
+
+  return (
+    <TouchableOpacity style={styles.measureButton} onPress={onPress}>
+      <Text style={styles.measureButtonText}>📏 Measure</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  measureButton: {
+    position: 'absolute',
+    top: 100,
+    left: 20,
+    backgroundColor: COLORS.MEASUREMENT,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+    zIndex: 100,
+  },
+  measureButtonText: {
+    color: COLORS.WHITE,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default MeasureButton; 
\ No newline at end of file
@@ -16,21 +16,30 @@ import {
 } from 'react-native';
 import { PaddockInfo } from '../utils/types';
 import { PADDOCK_PURPOSES, COLORS } from '../constants';
+import { formatArea, formatDistance } from '../utils/mapUtils';
 
 interface PaddockInfoModalProps {
   visible: boolean;
+  title?: string;
   paddockInfo: PaddockInfo;
+  area?: number; // Square metres
+  perimeter?: number; // Metres
   onPaddockInfoChange: (info: PaddockInfo) => void;
   onSave: () => void;
   onCancel: () => void;
+  onDelete?: () => void; // Shown when editing an existing paddock
 }
 
 const PaddockInfoModal: React.FC<PaddockInfoModalProps> = ({
   visible,
+  title = 'Paddock Information',
   paddockInfo,
+  area,
+  perimeter,
   onPaddockInfoChange,
   onSave,
   onCancel,
+  onDelete,
 }) => {
   const capacityInputRef = useRef<TextInput>(null);
   const notesInputRef = useRef<TextInput>(null);
@@ -89,7 +98,7 @@ const PaddockInfoModal: React.FC<PaddockInfoModalProps> = ({
                 <View style={styles.modalContainer}>
                 {/* Header */}
                 <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>Paddock Information</Text>
+                  <Text style={styles.modalTitle}>{title}</Text>
                   <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
                     <Text style={styles.closeButtonText}>×</Text>
                   </TouchableOpacity>
@@ -101,6 +110,14 @@ const PaddockInfoModal: React.FC<PaddockInfoModalProps> = ({
                   showsVerticalScrollIndicator={false}
                   keyboardShouldPersistTaps="handled"
                 >
+                  {/* Measurements */}
+                  {area !== undefined && perimeter !== undefined && (
+                    <View style={styles.measurementContainer}>
+                      <Text style={styles.measurementText}>Area: {formatArea(area)}</Text>
+                      <Text style={styles.measurementText}>Perimeter: {formatDistance(perimeter)}</Text>
+                    </View>
+                  )}
+
                   {/* Paddock Name */}
                   <View style={styles.fieldContainer}>
                     <Text style={styles.fieldLabel}>Paddock Name *</Text>
@@ -185,6 +202,11 @@ const PaddockInfoModal: React.FC<PaddockInfoModalProps> = ({
 
                 {/* Footer */}
                 <View style={styles.modalFooter}>
+                  {onDelete && (
+                    <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+                      <Text style={styles.saveButtonText}>Delete</Text>
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
                     <Text style={styles.cancelButtonText}>Cancel</Text>
                   </TouchableOpacity>
@@ -270,6 +292,17 @@ const styles = StyleSheet.create({
     padding: 20,
     maxHeight: 400,
   },
+  measurementContainer: {
+    backgroundColor: COLORS.BACKGROUND,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  measurementText: {
+    fontSize: 14,
+    color: COLORS.PRIMARY_TEXT,
+    fontWeight: '500',
+  },
   fieldContainer: {
     marginBottom: 20,
   },
@@ -338,6 +371,13 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.PRIMARY_TEXT,
   },
+  deleteButton: {
+    flex: 1,
+    backgroundColor: COLORS.ERROR,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
   saveButton: {
     flex: 1,
     backgroundColor: COLORS.SUCCESS,
@@ -1,6 +1,15 @@
 export { default as ControlPanel } from './ControlPanel';
 export { default as PaddockInfoModal } from './PaddockInfoModal';
+export { default as FarmInfoModal } from './FarmInfoModal';
+export { default as InfrastructureInfoModal } from './InfrastructureInfoModal';
+export { default as FenceInfoModal } from './FenceInfoModal';
+export { default as ImportExportModal } from './ImportExportModal';
 export { default as FloatingBottomMenu } from './FloatingBottomMenu';
 export { default as AddPaddockButton } from './AddPaddockButton';
+export { default as AddFenceButton } from './AddFenceButton';
+export { default as MeasureButton } from './MeasureButton';
 export { default as HeatmapLegend } from './HeatmapLegend';
+export { default as FarmSwitcher } from './FarmSwitcher';
+export { default as InfrastructurePicker } from './InfrastructurePicker';
+export { default as FenceSummary } from './FenceSummary';
 export { default as LivestockAnnotation } from './LivestockAnnotation'; 
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { InfrastructureType, InfrastructureStatus, FenceMaterial, FenceCondition, ExchangeFormat } from '../utils/types';
+
 // Paddock purposes options
 export const PADDOCK_PURPOSES = [
   'Grazing',
@@ -10,10 +12,63 @@ export const PADDOCK_PURPOSES = [
   'Other'
 ];
 
+// Infrastructure point types; capacityUnit is set for types that record a capacity
+export const INFRASTRUCTURE_TYPES: { type: InfrastructureType; label: string; capacityUnit?: string }[] = [
+  { type: 'trough', label: 'Trough', capacityUnit: 'L' },
+  { type: 'gate', label: 'Gate' },
+  { type: 'dam', label: 'Dam', capacityUnit: 'kL' },
+  { type: 'shed', label: 'Shed' },
+  { type: 'tank', label: 'Tank', capacityUnit: 'L' },
+  { type: 'yard', label: 'Yard', capacityUnit: 'head' }
+];
+
+export const INFRASTRUCTURE_STATUSES: { status: InfrastructureStatus; label: string; color: string }[] = [
+  { status: 'working', label: 'Working', color: '#4CAF50' },
+  { status: 'needs-repair', label: 'Needs Repair', color: '#FF9800' },
+  { status: 'out-of-service', label: 'Out of Service', color: '#F44336' }
+];
+
+// Fence options
+export const FENCE_MATERIALS: { material: FenceMaterial; label: string }[] = [
+  { material: 'barbed-wire', label: 'Barbed Wire' },
+  { material: 'plain-wire', label: 'Plain Wire' },
+  { material: 'hinge-joint', label: 'Hinge Joint' },
+  { material: 'netting', label: 'Netting' },
+  { material: 'timber-rail', label: 'Timber Rail' },
+  { material: 'steel-rail', label: 'Steel Rail' }
+];
+
+export const FENCE_CONDITIONS: { condition: FenceCondition; label: string; color: string }[] = [
+  { condition: 'good', label: 'Good', color: '#4CAF50' },
+  { condition: 'fair', label: 'Fair', color: '#FF9800' },
+  { condition: 'poor', label: 'Poor', color: '#F44336' }
+];
+
+// Formats farm data can be exported as
+export const EXCHANGE_FORMATS: { format: ExchangeFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { format: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'kmz', label: 'KMZ', extension: 'kmz', mimeType: 'application/vnd.google-earth.kmz' }
+];
+
+// Simplification tolerance options, in metres
+export const SIMPLIFY_TOLERANCES = [1, 2, 5, 10, 20];
+
+// Setback zone width options, in metres
+export const SETBACK_DISTANCES = [5, 10, 20, 50];
+
+// Auto-subdivision options
+export const SUBDIVIDE_BEARINGS = [0, 45, 90, 135]; // Degrees clockwise from north
+export const SUBDIVIDE_MAX_PADDOCKS = 50;
+
+// Number of undo steps kept
+export const MAX_HISTORY_SIZE = 50;
+
 // Map configuration
 export const MAP_CONFIG = {
   CENTER_COORDINATE: [-99.9018, 41.4993], // Nebraska ranch/grazing area
   ZOOM_LEVEL: 11,
+  SNAP_TOLERANCE_PIXELS: 20, // How close a tap must be to snap onto existing features
   STYLE_URL: 'mapbox://styles/mapbox/satellite-v9'
 };
 
@@ -24,6 +79,14 @@ export const COLORS = {
   SELECTED: '#2196F3',
   SELECTED_FARM: '#FFD700',
   VERTEX_HANDLE: '#FF5722',
+  HOLE: '#9E9E9E',
+  SNAP_INDICATOR: '#00E5FF',
+  SETBACK: '#E91E63',
+  MEASUREMENT: '#673AB7',
+  OUT_OF_BOUNDS: '#D50000',
+  INFRASTRUCTURE: '#3F51B5',
+  FENCE: '#795548',
+  ELECTRIC_FENCE: '#FFEB3B',
   WHITE: '#ffffff',
   PRIMARY_TEXT: '#333',
   SECONDARY_TEXT: '#666',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   SafeAreaView,
   StyleSheet,
@@ -9,8 +9,28 @@ import {
 } from 'react-native';
 import MapboxGL, { MapView, ShapeSource, FillLayer, LineLayer, PointAnnotation, CircleLayer, SymbolLayer } from '@rnmapbox/maps';
 import Config from 'react-native-config';
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { pick, keepLocalCopy, isErrorWithCode, errorCodes } from '@react-native-documents/picker';
+import { fromByteArray, toByteArray } from 'base64-js';
+import { strFromU8 } from 'fflate';
 
-import { ControlPanel, PaddockInfoModal, FloatingBottomMenu, AddPaddockButton, HeatmapLegend } from '../components';
+import {
+  ControlPanel,
+  PaddockInfoModal,
+  FarmInfoModal,
+  InfrastructureInfoModal,
+  FenceInfoModal,
+  FloatingBottomMenu,
+  AddPaddockButton,
+  AddFenceButton,
+  MeasureButton,
+  HeatmapLegend,
+  FarmSwitcher,
+  InfrastructurePicker,
+  FenceSummary,
+  ImportExportModal
+} from '../components';
 import { 
   AppState, 
   DrawingMode, 
@@ -18,24 +38,89 @@ import {
   PolygonCollection, 
   PointCollection, 
   PaddockInfo, 
+  FarmInfo,
   PolygonFeature,
   BottomMenuMode,
   LivestockData,
   LivestockAnnotation as LivestockAnnotationType,
-  HeatmapDataPoint
+  HeatmapDataPoint,
+  SnapResult,
+  PaddockSplit,
+  PaddockMerge,
+  LineCollection,
+  SimplificationPreview,
+  SubdivisionLayout,
+  SpatialIndexNode,
+  MeasurementShape,
+  HistoryEntry,
+  HistoryStacks,
+  InfrastructureCollection,
+  InfrastructureFeature,
+  InfrastructureInfo,
+  InfrastructureType,
+  FenceCollection,
+  FenceFeature,
+  FenceInfo,
+  FarmData,
+  ImportPreview,
+  ImportMergeStrategy,
+  ImportResult,
+  ExchangeFormat
 } from '../utils/types';
 import {
-  isPointInPolygon, 
   isPaddockWithinFarm, 
   getFarmBoundaries, 
   getPaddocksForFarm, 
   getPolygonVertices, 
+  getPolygonHoleVertices,
   createClosedPolygon,
   addInitialsToPolygons,
   generateMockLivestockData,
   createLivestockAnnotations,
   generateHeatmapData,
-  createHeatmapGeoJSON
+  createHeatmapGeoJSON,
+  addMeasurementsToFeature,
+  addAreaLabelsToPolygons,
+  findOverlappingPaddocks,
+  trimPolygonToFreeArea,
+  findSelfIntersections,
+  reorderPolygonPoints,
+  splitSelfIntersectingPolygon,
+  createSelfIntersectionGeoJSON,
+  toOpenRing,
+  clipPolygonToBoundary,
+  createPolygonLabelGeoJSON,
+  isValidPolygonRings,
+  canAddHoleToPolygon,
+  calculatePolygonRingsArea,
+  calculatePolygonRingsPerimeter,
+  getMetresPerPixel,
+  snapToFeatures,
+  splitPolygonWithLine,
+  calculateMultiPolygonArea,
+  unionPolygons,
+  simplifyPolygonRings,
+  countPolygonVertices,
+  createSetbackZone,
+  intersectPolygons,
+  subtractPolygons,
+  subdivideIntoEqualAreas,
+  createFeatureIndex,
+  findFeaturesAtPoint,
+  findPaddocksOutsideFarm,
+  movePaddockIntoFarm,
+  getFarmWithPaddocks,
+  getBoundingBox,
+  getRingMidpoints,
+  insertRingVertex,
+  removeRingVertex,
+  calculateGeodesicDistance,
+  formatDistance,
+  assignInfrastructureToPaddocks,
+  removePaddock,
+  calculateLineLength,
+  summarizeFenceLengths,
+  MIN_OVERLAP_AREA
 } from '../utils/mapUtils';
 import {
   loadAllData,
@@ -43,9 +128,27 @@ import {
   saveSelectedFarmId,
   saveAppState,
   saveBottomMenuMode,
+  saveSetbackZones,
+  saveInfrastructure,
+  saveFences,
   clearAllData
 } from '../utils/storage';
-import { MAP_CONFIG, COLORS } from '../constants';
+import { readGeoJSON, writeGeoJSON } from '../utils/geojson';
+import { readKML, writeKML } from '../utils/kml';
+import { readKMZ, writeKMZ, isZip } from '../utils/kmz';
+import { findImportConflicts, mergeImportedFarmData } from '../utils/importExport';
+import { recordHistoryEntry, undoHistory, redoHistory } from '../utils/history';
+import {
+  MAP_CONFIG,
+  COLORS,
+  SIMPLIFY_TOLERANCES,
+  SETBACK_DISTANCES,
+  SUBDIVIDE_BEARINGS,
+  INFRASTRUCTURE_TYPES,
+  INFRASTRUCTURE_STATUSES,
+  FENCE_CONDITIONS,
+  EXCHANGE_FORMATS
+} from '../constants';
 import type { Polygon } from 'geojson';
 
 MapboxGL.setAccessToken(Config.MAPBOX_ACCESS_TOKEN || "");
@@ -61,20 +164,89 @@ const HapticFeedback = {
   }
 };
 
+// Convert a closed ring back into editable drawing points
+const ringToDrawingPoints = (ring: number[][]): DrawingPoint[] => {
+  const timestamp = Date.now();
+
+  return toOpenRing(ring).map((coordinates, index) => ({
+    coordinates,
+    id: `point_${timestamp}_${index}`
+  }));
+};
+
 const HomeScreen: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('initial');
   const [isEditMode, setIsEditMode] = useState(false);
   const [drawingMode, setDrawingMode] = useState<DrawingMode>('farm');
   const [selectedPolygonId, setSelectedPolygonId] = useState<string | null>(null);
   const [selectedFarmId, setSelectedFarmId] = useState<string | null>(null);
+  const cameraRef = useRef<React.ElementRef<typeof MapboxGL.Camera>>(null);
+  // Bumped to remount vertex handles when a drag is rejected
+  const [vertexResetKey, setVertexResetKey] = useState(0);
+  // The corner tapped while editing, which the delete button removes
+  const [selectedVertex, setSelectedVertex] = useState<{ ringIndex: number; vertexIndex: number } | null>(null);
   const [currentPolygon, setCurrentPolygon] = useState<DrawingPoint[]>([]);
+  const [mapZoom, setMapZoom] = useState(MAP_CONFIG.ZOOM_LEVEL);
+  const [isSnappingEnabled, setIsSnappingEnabled] = useState(true);
+  const [snapIndicator, setSnapIndicator] = useState<SnapResult | null>(null);
   const [completedPolygons, setCompletedPolygons] = useState<PolygonCollection>({
     type: 'FeatureCollection',
     features: []
   });
+  // R-tree over completed polygons, rebuilt when they change, for tap hit testing
+  const [featureIndex, setFeatureIndex] = useState<SpatialIndexNode<PolygonFeature>>(() =>
+    createFeatureIndex(completedPolygons)
+  );
+
+  // Undo/redo snapshots, oldest first
+  const [history, setHistory] = useState<HistoryStacks>({ undo: [], redo: [] });
+
+  // Paddocks left outside their farm by an edit to the farm boundary
+  const [outOfBoundsPaddocks, setOutOfBoundsPaddocks] = useState<PolygonFeature[]>([]);
 
   // Paddock info modal states
   const [showPaddockModal, setShowPaddockModal] = useState(false);
+
+  // Farm info modal states: new farm shapes waiting for details, or the farm being edited
+  const [showFarmModal, setShowFarmModal] = useState(false);
+  const [pendingFarmPolygons, setPendingFarmPolygons] = useState<number[][][][] | null>(null);
+  const [editingFarmId, setEditingFarmId] = useState<string | null>(null);
+  const [farmInfo, setFarmInfo] = useState<FarmInfo>({
+    name: '',
+    owner: '',
+    propertyCode: '',
+    address: '',
+    notes: ''
+  });
+  // Polygons (as rings) to save instead of the current drawing, e.g. split shapes
+  const [pendingPaddockPolygons, setPendingPaddockPolygons] = useState<number[][][][] | null>(null);
+  // Holes left in the paddock drawing by clipping or trimming, kept while its outer ring is edited
+  const [stagedPaddockHoles, setStagedPaddockHoles] = useState<number[][][]>([]);
+  const [pendingSplit, setPendingSplit] = useState<PaddockSplit | null>(null);
+  const [mergeSelectionIds, setMergeSelectionIds] = useState<string[]>([]);
+  const [pendingMerge, setPendingMerge] = useState<PaddockMerge | null>(null);
+  const [editingPaddockId, setEditingPaddockId] = useState<string | null>(null);
+  const [simplifyTolerance, setSimplifyTolerance] = useState(SIMPLIFY_TOLERANCES[1]);
+  const [simplifiedRings, setSimplifiedRings] = useState<number[][][] | null>(null);
+
+  // Setback zones are kept apart from farms and paddocks and drawn on their own layer
+  const [setbackZones, setSetbackZones] = useState<PolygonCollection>({
+    type: 'FeatureCollection',
+    features: []
+  });
+  const [setbackDistance, setSetbackDistance] = useState(SETBACK_DISTANCES[1]);
+  const [setbackPreviewPolygons, setSetbackPreviewPolygons] = useState<number[][][][]>([]);
+
+  // Auto-subdivision settings and the resulting paddock shapes
+  const [subdivideCount, setSubdivideCount] = useState(6);
+  const [subdivideLayout, setSubdivideLayout] = useState<SubdivisionLayout>('strips');
+  const [subdivideBearing, setSubdivideBearing] = useState(SUBDIVIDE_BEARINGS[0]);
+  const [subdivisionPreview, setSubdivisionPreview] = useState<number[][][][]>([]);
+
+  // Temporary measurement, never saved, and the state to return to when it is done
+  const [measurePoints, setMeasurePoints] = useState<number[][]>([]);
+  const [measurementShape, setMeasurementShape] = useState<MeasurementShape>('line');
+  const [measureReturnState, setMeasureReturnState] = useState<AppState>('initial');
   const [paddockInfo, setPaddockInfo] = useState<PaddockInfo>({
     name: '',
     purpose: 'Grazing',
@@ -89,9 +261,55 @@ const HomeScreen: React.FC = () => {
   const [livestockData, setLivestockData] = useState<LivestockData[]>([]);
   const [livestockAnnotations, setLivestockAnnotations] = useState<LivestockAnnotationType[]>([]);
 
+  // Paddock label points, placed at each shape's visual center
+  const [polygonLabelPoints, setPolygonLabelPoints] = useState<PointCollection>({
+    type: 'FeatureCollection',
+    features: []
+  });
+
   // Heatmap state
   const [heatmapData, setHeatmapData] = useState<HeatmapDataPoint[]>([]);
 
+  // Infrastructure state: the type placed by the next map tap, and the point being added or edited
+  const [infrastructure, setInfrastructure] = useState<InfrastructureCollection>({
+    type: 'FeatureCollection',
+    features: []
+  });
+  const [placementType, setPlacementType] = useState<InfrastructureType>('trough');
+  const [showInfrastructureModal, setShowInfrastructureModal] = useState(false);
+  const [pendingInfrastructurePoint, setPendingInfrastructurePoint] = useState<number[] | null>(null);
+  const [editingInfrastructureId, setEditingInfrastructureId] = useState<string | null>(null);
+  const [infrastructureInfo, setInfrastructureInfo] = useState<InfrastructureInfo>({
+    name: '',
+    type: 'trough',
+    status: 'working',
+    capacity: '',
+    notes: ''
+  });
+
+  // Fence state: the line waiting for its details, or the fence being edited
+  const [fences, setFences] = useState<FenceCollection>({
+    type: 'FeatureCollection',
+    features: []
+  });
+  const [showFenceModal, setShowFenceModal] = useState(false);
+  const [pendingFenceLine, setPendingFenceLine] = useState<number[][] | null>(null);
+  const [editingFenceId, setEditingFenceId] = useState<string | null>(null);
+  const [fenceInfo, setFenceInfo] = useState<FenceInfo>({
+    name: '',
+    material: 'barbed-wire',
+    wireCount: '',
+    electric: false,
+    condition: 'good',
+    notes: ''
+  });
+
+  // Import/export state: the pasted file text, and what it would add once checked
+  const [showImportExportModal, setShowImportExportModal] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExchangeFormat>('geojson');
+  const [importText, setImportText] = useState('');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+
   // Load data from storage on component mount
   useEffect(() => {
     const loadStoredData = () => {
@@ -99,10 +317,33 @@ const HomeScreen: React.FC = () => {
         const storedData = loadAllData();
         
         if (storedData.completedPolygons.features.length > 0) {
-          setCompletedPolygons(storedData.completedPolygons);
+          // Backfill measurements for features saved before area tracking existed
+          setCompletedPolygons({
+            ...storedData.completedPolygons,
+            features: storedData.completedPolygons.features.map(feature =>
+              feature.properties && typeof feature.properties.area !== 'number'
+                ? addMeasurementsToFeature(feature as PolygonFeature)
+                : feature
+            )
+          });
           console.log('Loaded', storedData.completedPolygons.features.length, 'polygons from storage');
         }
         
+        if (storedData.setbackZones.features.length > 0) {
+          setSetbackZones(storedData.setbackZones);
+          console.log('Loaded', storedData.setbackZones.features.length, 'setback zones from storage');
+        }
+
+        if (storedData.infrastructure.features.length > 0) {
+          setInfrastructure(storedData.infrastructure);
+          console.log('Loaded', storedData.infrastructure.features.length, 'infrastructure points from storage');
+        }
+
+        if (storedData.fences.features.length > 0) {
+          setFences(storedData.fences);
+          console.log('Loaded', storedData.fences.features.length, 'fences from storage');
+        }
+
         if (storedData.selectedFarmId) {
           setSelectedFarmId(storedData.selectedFarmId);
           console.log('Restored selected farm:', storedData.selectedFarmId);
@@ -134,9 +375,41 @@ const HomeScreen: React.FC = () => {
     }
   }, [completedPolygons]);
 
-  // Auto-save app state changes
+  // Rebuild the hit-testing index whenever polygons change
+  useEffect(() => {
+    setFeatureIndex(createFeatureIndex(completedPolygons));
+  }, [completedPolygons]);
+
+  // Re-validate paddocks against their farms after any change to the shapes
+  useEffect(() => {
+    setOutOfBoundsPaddocks(findPaddocksOutsideFarm(completedPolygons));
+  }, [completedPolygons]);
+
+  // Auto-save setback zones, including when the last one is removed
+  useEffect(() => {
+    saveSetbackZones(setbackZones);
+  }, [setbackZones]);
+
+  // Keep each infrastructure point linked to the farm and paddock it sits in
+  useEffect(() => {
+    setInfrastructure(prev => assignInfrastructureToPaddocks(prev, featureIndex));
+  }, [featureIndex]);
+
+  // Auto-save infrastructure, including when the last point is removed
+  useEffect(() => {
+    saveInfrastructure(infrastructure);
+  }, [infrastructure]);
+
+  // Auto-save fences, including when the last one is removed
+  useEffect(() => {
+    saveFences(fences);
+  }, [fences]);
+
+  // Auto-save app state changes; measuring is temporary and never restored
   useEffect(() => {
-    saveAppState(appState);
+    if (appState !== 'measuring') {
+      saveAppState(appState);
+    }
   }, [appState]);
 
   // Auto-save selected farm ID
@@ -153,9 +426,17 @@ const HomeScreen: React.FC = () => {
   useEffect(() => {
     const paddocks = completedPolygons.features.filter(f => f.properties?.type === 'paddock');
     if (paddocks.length > 0) {
-      // Always regenerate livestock data when paddocks change
-      const mockData = generateMockLivestockData(completedPolygons);
-      setLivestockData(mockData);
+      // Keep records for paddocks that still exist (e.g. reassigned on merge), generate the rest
+      setLivestockData(prev => {
+        const paddockIds = new Set(paddocks.map(paddock => paddock.properties!.id));
+        const keptData = prev.filter(data => paddockIds.has(data.paddockId));
+        const keptIds = new Set(keptData.map(data => data.paddockId));
+        const mockData = generateMockLivestockData({
+          ...completedPolygons,
+          features: paddocks.filter(paddock => !keptIds.has(paddock.properties!.id))
+        });
+        return [...keptData, ...mockData];
+      });
       console.log('Generated livestock data for', paddocks.length, 'paddocks');
     } else {
       // Clear livestock data when no paddocks exist
@@ -166,7 +447,7 @@ const HomeScreen: React.FC = () => {
   // Create livestock annotations when livestock data or polygons change
   useEffect(() => {
     if (livestockData.length > 0) {
-      const annotations = createLivestockAnnotations(completedPolygons, livestockData);
+      const annotations = createLivestockAnnotations(getSelectedFarmPolygons(completedPolygons), livestockData);
       console.log('Created livestock annotations:', annotations.length);
       annotations.forEach((annotation, index) => {
         console.log(`Annotation ${index}:`, {
@@ -178,21 +459,159 @@ const HomeScreen: React.FC = () => {
         });
       });
       setLivestockAnnotations(annotations);
+    } else {
+      // Clear annotations once the last paddock is gone
+      setLivestockAnnotations([]);
     }
-  }, [completedPolygons, livestockData]);
+  }, [completedPolygons, livestockData, selectedFarmId]);
+
+  // Place labels when shapes or the selected farm change; finding visual centers is too slow to redo on every render
+  useEffect(() => {
+    setPolygonLabelPoints(createPolygonLabelGeoJSON(
+      getSelectedFarmPolygons(addAreaLabelsToPolygons(addInitialsToPolygons(completedPolygons)))
+    ));
+  }, [completedPolygons, selectedFarmId]);
 
-  // Generate heatmap data when farm boundaries or livestock data changes
+  // Generate heatmap data for the selected farm when farm boundaries or livestock data changes
   useEffect(() => {
     const farmBoundaries = completedPolygons.features.filter(f => f.properties?.type === 'farm');
     if (farmBoundaries.length > 0 && livestockData.length > 0) {
-      const livestockHeatmapData = generateHeatmapData(completedPolygons, livestockData);
+      const livestockHeatmapData = generateHeatmapData(completedPolygons, livestockData, selectedFarmId || undefined);
       setHeatmapData(livestockHeatmapData);
       console.log('Generated livestock density heatmap points:', livestockHeatmapData.length);
     } else {
       // Clear heatmap data when no farm or livestock data exists
       setHeatmapData([]);
     }
-  }, [completedPolygons, livestockData]);
+  }, [completedPolygons, livestockData, selectedFarmId]);
+
+  // Keep a valid farm selected as farms are added, removed or restored
+  useEffect(() => {
+    const farms = getFarmBoundaries(completedPolygons);
+    if (farms.length === 0) {
+      if (selectedFarmId) setSelectedFarmId(null);
+    } else if (!farms.some(farm => farm.properties.id === selectedFarmId)) {
+      setSelectedFarmId(farms[0].properties.id);
+    }
+  }, [completedPolygons, selectedFarmId]);
+
+  // Bring the selected farm into view whenever the selection changes
+  useEffect(() => {
+    const farm = getFarmBoundaries(completedPolygons).find(f => f.properties.id === selectedFarmId);
+    if (farm) {
+      const [minLon, minLat, maxLon, maxLat] = getBoundingBox(farm.geometry.coordinates[0]);
+      cameraRef.current?.fitBounds([maxLon, maxLat], [minLon, minLat], 60, 1000);
+    }
+    // Only refocus on a new selection, not on every edit of the farm
+  }, [selectedFarmId]);
+
+  // Recompute the subdivision preview when its settings change
+  useEffect(() => {
+    const farm = appState === 'subdividing'
+      ? completedPolygons.features.find(feature => feature.properties && feature.properties.id === selectedPolygonId)
+      : undefined;
+    if (!farm || !farm.properties) {
+      setSubdivisionPreview([]);
+      return;
+    }
+
+    setSubdivisionPreview(subdivideIntoEqualAreas(
+      getFreeFarmArea(farm.properties.id),
+      subdivideCount,
+      subdivideLayout,
+      subdivideBearing
+    ));
+  }, [appState, selectedPolygonId, completedPolygons, setbackZones, subdivideCount, subdivideLayout, subdivideBearing]);
+
+  // Recompute the setback preview when its source or width changes; buffering is too slow to redo on every render
+  useEffect(() => {
+    const source = appState === 'setback'
+      ? completedPolygons.features.find(feature => feature.properties && feature.properties.id === selectedPolygonId)
+      : undefined;
+    setSetbackPreviewPolygons(source ? getSetbackPolygons(source as PolygonFeature) : []);
+  }, [appState, selectedPolygonId, completedPolygons, setbackDistance]);
+
+  // Recompute the simplified outline when its source or tolerance changes; simplifying is too slow to redo on every render
+  useEffect(() => {
+    const target = appState === 'simplifying'
+      ? completedPolygons.features.find(feature => feature.properties && feature.properties.id === selectedPolygonId)
+      : undefined;
+    setSimplifiedRings(target ? getSimplifiedRings(target as PolygonFeature) : null);
+  }, [appState, selectedPolygonId, completedPolygons, simplifyTolerance]);
+
+  // Corner indexes only hold for the shape they were tapped on
+  useEffect(() => {
+    setSelectedVertex(null);
+  }, [appState, selectedPolygonId, completedPolygons]);
+
+  // A cleared drawing takes its staged holes with it
+  useEffect(() => {
+    if (currentPolygon.length === 0) {
+      setStagedPaddockHoles([]);
+    }
+  }, [currentPolygon]);
+
+  // Livestock, heatmap and labels only cover the selected farm and its paddocks
+  const getSelectedFarmPolygons = (polygons: PolygonCollection) =>
+    selectedFarmId ? getFarmWithPaddocks(polygons, selectedFarmId) : polygons;
+
+  const getHistorySnapshot = (): HistoryEntry => ({
+    currentPolygon,
+    completedPolygons,
+    livestockData,
+    setbackZones,
+    infrastructure,
+    fences
+  });
+
+  // Remember the current drawing and shapes before changing them
+  const recordHistory = () => {
+    setHistory(prev => recordHistoryEntry(prev, getHistorySnapshot()));
+  };
+
+  const updateCompletedPolygons = (update: (prev: PolygonCollection) => PolygonCollection) => {
+    recordHistory();
+    setCompletedPolygons(update);
+  };
+
+  const updateInfrastructure = (update: (prev: InfrastructureCollection) => InfrastructureCollection) => {
+    recordHistory();
+    setInfrastructure(update);
+  };
+
+  const updateFences = (update: (prev: FenceCollection) => FenceCollection) => {
+    recordHistory();
+    setFences(update);
+  };
+
+  const restoreHistoryEntry = (entry: HistoryEntry) => {
+    setCompletedPolygons(entry.completedPolygons);
+    setLivestockData(entry.livestockData);
+    setSetbackZones(entry.setbackZones);
+    setInfrastructure(entry.infrastructure);
+    setFences(entry.fences);
+    if (isDrawing) {
+      setCurrentPolygon(entry.currentPolygon);
+    }
+    setSnapIndicator(null);
+    setVertexResetKey(key => key + 1);
+  };
+
+  const undo = () => {
+    const step = undoHistory(history, getHistorySnapshot(), isDrawing);
+    setHistory(step.stacks);
+    if (step.entry) {
+      restoreHistoryEntry(step.entry);
+    }
+  };
+
+  const redo = () => {
+    const step = redoHistory(history, getHistorySnapshot(), isDrawing);
+    setHistory(step.stacks);
+    if (step.entry) {
+      restoreHistoryEntry(step.entry);
+    }
+  };
 
   const startDrawingFarm = () => {
     setAppState('drawing-farm');
@@ -223,7 +642,7 @@ const HomeScreen: React.FC = () => {
     setIsEditMode(true);
     Alert.alert(
       'Edit Mode',
-      'Tap on a polygon to select it, then drag the red corner points to resize.',
+      'Tap on a polygon to select it, then drag the red corner points to resize. Drag the small edge points to add corners, or tap a corner to delete it.',
       [{ text: 'OK' }]
     );
   };
@@ -234,174 +653,1383 @@ const HomeScreen: React.FC = () => {
     setSelectedPolygonId(null);
   };
 
-  const cancelDrawing = () => {
-    if (appState === 'drawing-farm') {
-      setAppState('initial');
-    } else if (appState === 'drawing-paddock') {
-      setAppState('paddock-mode'); // Return to paddock mode
-    }
-    setCurrentPolygon([]);
+  const startMeasuring = () => {
+    setMeasureReturnState(appState);
+    setAppState('measuring');
+    setMeasurePoints([]);
+    setSnapIndicator(null);
+    Alert.alert(
+      'Measure',
+      'Tap on the map to measure a distance, or switch to Area to measure a shape. Nothing is saved.',
+      [{ text: 'OK' }]
+    );
   };
 
-  const completeFarm = () => {
-    if (currentPolygon.length < 3) {
-      Alert.alert('Error', 'A farm boundary needs at least 3 points. Please add more points.');
-      return;
-    }
+  const stopMeasuring = () => {
+    setAppState(measureReturnState);
+    setMeasurePoints([]);
+    setSnapIndicator(null);
+  };
 
-    const polygonCoords = currentPolygon.map(point => point.coordinates);
-    const closedPolygon = createClosedPolygon(polygonCoords);
-    
-    const newPolygon: Polygon = {
-      type: 'Polygon',
-      coordinates: [closedPolygon]
-    };
+  const startDrawingHole = () => {
+    if (!selectedPolygonId) return;
 
-    const polygonId = `farm_${Date.now()}`;
-    const newFeature: PolygonFeature = {
-      type: 'Feature',
-      properties: {
-        name: 'Farm Boundary',
-        created: new Date().toISOString(),
-        id: polygonId,
-        type: 'farm',
-      },
-      geometry: newPolygon
-    };
+    setAppState('drawing-hole');
+    setDrawingMode('hole');
+    setCurrentPolygon([]);
+    Alert.alert(
+      'Draw Hole',
+      'Tap on the map to outline an area to exclude (dam, house yard, shed) inside the selected shape.',
+      [{ text: 'OK' }]
+    );
+  };
 
-    setCompletedPolygons(prev => ({
-      ...prev,
-      features: [...prev.features, newFeature]
-    }));
+  const startSplitting = () => {
+    if (!selectedPolygonId) return;
 
-    // Auto-select the completed farm
-    setSelectedFarmId(polygonId);
+    setAppState('drawing-cut');
+    setDrawingMode('cut');
     setCurrentPolygon([]);
-    setAppState('paddock-mode'); // Directly go to paddock mode
-    setBottomMenuMode('paddock'); // Default to paddock mode
-    
     Alert.alert(
-      'Farm Boundary Created!',
-      `Farm boundary completed with ${currentPolygon.length} points. You can now add paddocks using the + button.`,
+      'Split Paddock',
+      'Tap on the map to draw a cut line from one side of the paddock to the other, starting and ending outside it.',
       [{ text: 'OK' }]
     );
   };
 
-  const completePaddock = () => {
-    if (currentPolygon.length < 3) {
-      Alert.alert('Error', 'A paddock needs at least 3 points. Please add more points.');
+  const startSimplifying = () => {
+    if (!selectedPolygonId) return;
+    setAppState('simplifying');
+  };
+
+  // The selected polygon simplified at the chosen tolerance, keeping fences shared with other features
+  const getSimplifiedRings = (feature: PolygonFeature): number[][][] => {
+    const neighbours = completedPolygons.features.filter(
+      other => other.properties && other.properties.id !== feature.properties.id
+    ) as PolygonFeature[];
+    return simplifyPolygonRings(feature.geometry.coordinates, simplifyTolerance, neighbours);
+  };
+
+  const applySimplification = () => {
+    const selectedFeature = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === selectedPolygonId
+    ) as PolygonFeature | undefined;
+    if (!selectedFeature) {
+      setAppState('editing');
       return;
     }
 
-    const polygonCoords = currentPolygon.map(point => point.coordinates);
-    
-    // Validate paddock is within farm boundary
-    if (selectedFarmId) {
-      const selectedFarm = completedPolygons.features.find(f => 
-        f.properties && f.properties.id === selectedFarmId
+    const newRings = getSimplifiedRings(selectedFeature);
+    const { id, type, parentId, name } = selectedFeature.properties;
+
+    // The simplified outline must still respect the farm and neighbouring paddocks
+    let conflict: string | null = null;
+    if (type === 'paddock') {
+      const parentFarm = completedPolygons.features.find(
+        feature => feature.properties && feature.properties.id === parentId
       );
-      
-      if (selectedFarm) {
-        const farmCoords = selectedFarm.geometry.coordinates[0];
-        if (!isPaddockWithinFarm(polygonCoords, farmCoords)) {
-          Alert.alert(
-            'Invalid Paddock',
-            'The paddock must be drawn completely within the farm boundary.',
-            [{ text: 'OK' }]
-          );
-          return;
-        }
+      const siblingPaddocks = getPaddocksForFarm(completedPolygons, parentId || '');
+      if (parentFarm && !isPaddockWithinFarm(newRings, parentFarm.geometry.coordinates)) {
+        conflict = 'it would extend outside the farm boundary';
+      } else if (findOverlappingPaddocks(newRings, siblingPaddocks, id).length > 0) {
+        conflict = 'it would overlap a neighbouring paddock';
       }
+    } else if (getPaddocksForFarm(completedPolygons, id).some(
+      paddock => !isPaddockWithinFarm(paddock.geometry.coordinates, newRings)
+    )) {
+      conflict = 'some paddocks would end up outside the farm boundary';
     }
 
-    // Show paddock info modal
-    const paddockCount = getPaddocksForFarm(completedPolygons, selectedFarmId || '').length;
-    setPaddockInfo({
-      name: `Paddock ${paddockCount + 1}`,
-      purpose: 'Grazing',
-      capacity: '',
-      notes: ''
-    });
-    setShowPaddockModal(true);
+    if (conflict) {
+      Alert.alert(
+        'Cannot Simplify',
+        `${name} cannot be simplified at ${simplifyTolerance} m because ${conflict}. Try a smaller tolerance.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    updatePolygonRings(id, newRings);
+    setAppState('editing');
+
+    Alert.alert(
+      'Boundary Simplified',
+      `${name} now has ${countPolygonVertices(newRings)} vertices (was ${countPolygonVertices(selectedFeature.geometry.coordinates)}).`,
+      [{ text: 'OK' }]
+    );
   };
 
-  const handleSavePaddock = () => {
-    const polygonCoords = currentPolygon.map(point => point.coordinates);
-    const closedPolygon = createClosedPolygon(polygonCoords);
-    
-    const newPolygon: Polygon = {
-      type: 'Polygon',
-      coordinates: [closedPolygon]
-    };
+  const getSetbackZonesForFarm = (farmId: string): PolygonFeature[] => {
+    return setbackZones.features.filter(
+      zone => zone.properties && zone.properties.parentId === farmId
+    ) as PolygonFeature[];
+  };
 
-    const polygonId = `paddock_${Date.now()}`;
-    
-    const newFeature: PolygonFeature = {
+  const startSetback = () => {
+    if (!selectedPolygonId) return;
+    setAppState('setback');
+  };
+
+  // Farms get a band inside their boundary; paddocks get a band around them, kept within the farm
+  const getSetbackPolygons = (feature: PolygonFeature, distance: number = setbackDistance): number[][][][] => {
+    if (feature.properties.type === 'farm') {
+      return createSetbackZone(feature.geometry.coordinates, -distance);
+    }
+
+    const parentFarm = completedPolygons.features.find(
+      farm => farm.properties && farm.properties.id === feature.properties.parentId
+    );
+    const zone = createSetbackZone(feature.geometry.coordinates, distance);
+    return parentFarm
+      ? zone.flatMap(rings => intersectPolygons(rings, parentFarm.geometry.coordinates))
+      : zone;
+  };
+
+  const createSetbackZoneFeatures = (
+    sourceFeature: PolygonFeature,
+    distance: number,
+    idPrefix: string = `setback_${Date.now()}`
+  ): PolygonFeature[] => {
+    const { id, name, type, parentId } = sourceFeature.properties;
+    return getSetbackPolygons(sourceFeature, distance).map((rings, index) => addMeasurementsToFeature({
       type: 'Feature',
       properties: {
-        name: paddockInfo.name.trim(),
+        name: `${name} Setback`,
         created: new Date().toISOString(),
-        id: polygonId,
-        type: 'paddock',
-        parentId: selectedFarmId || undefined,
-        purpose: paddockInfo.purpose,
-        capacity: paddockInfo.capacity ? parseInt(paddockInfo.capacity) : undefined,
-        notes: paddockInfo.notes.trim() || undefined,
+        id: `${idPrefix}_${index}`,
+        type: 'setback',
+        parentId: type === 'farm' ? id : parentId,
+        sourceId: id,
+        setbackDistance: distance,
       },
-      geometry: newPolygon
-    };
+      geometry: {
+        type: 'Polygon',
+        coordinates: rings
+      }
+    }));
+  };
+
+  // Zones follow their paddocks when they are split or merged: the new paddocks get a zone
+  // at the widest width the old ones had, and the zones of paddocks that are gone are dropped
+  const carrySetbackZones = (sourceIds: string[], resultFeatures: PolygonFeature[]) => {
+    const sourceZones = setbackZones.features.filter(
+      zone => zone.properties?.sourceId !== undefined && sourceIds.includes(zone.properties.sourceId)
+    );
+    if (sourceZones.length === 0) return;
 
-    setCompletedPolygons(prev => ({
+    const distance = Math.max(...sourceZones.map(zone => zone.properties?.setbackDistance || 0));
+    const timestamp = Date.now();
+    const newZones = resultFeatures.flatMap((feature, index) =>
+      createSetbackZoneFeatures(feature, distance, `setback_${timestamp}_${index}`)
+    );
+    setSetbackZones(prev => ({
       ...prev,
-      features: [...prev.features, newFeature]
+      features: [
+        ...prev.features.filter(zone => zone.properties?.sourceId === undefined || !sourceIds.includes(zone.properties.sourceId)),
+        ...newZones
+      ]
     }));
+  };
 
-    setCurrentPolygon([]);
-    setAppState('paddock-mode');
-    setShowPaddockModal(false);
-    
+  const applySetback = () => {
+    const sourceFeature = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === selectedPolygonId
+    ) as PolygonFeature | undefined;
+    if (!sourceFeature) {
+      setAppState('editing');
+      return;
+    }
+
+    const { id, name, type, parentId } = sourceFeature.properties;
+    const farmId = type === 'farm' ? id : parentId;
+    const zoneFeatures = createSetbackZoneFeatures(sourceFeature, setbackDistance);
+
+    // One zone per source feature: a new width replaces the old zone
+    recordHistory();
+    setSetbackZones(prev => ({
+      ...prev,
+      features: [
+        ...prev.features.filter(zone => !zone.properties || zone.properties.sourceId !== id),
+        ...zoneFeatures
+      ]
+    }));
+    setAppState('editing');
+
+    const encroachingPaddocks = zoneFeatures.length > 0
+      ? getPaddocksForFarm(completedPolygons, farmId || '').filter(paddock =>
+        paddock.properties.id !== id &&
+        zoneFeatures.some(zone => findOverlappingPaddocks(zone.geometry.coordinates, [paddock]).length > 0)
+      )
+      : [];
     Alert.alert(
-      'Paddock Created!',
-      `${paddockInfo.name} created successfully with ${currentPolygon.length} points.`,
+      'Setback Zone Created',
+      `New paddocks will be kept ${setbackDistance} m ${type === 'farm' ? 'inside' : 'away from'} ${name}.` +
+        (encroachingPaddocks.length > 0
+          ? `\n\nExisting paddocks already in the zone: ${encroachingPaddocks.map(paddock => paddock.properties.name).join(', ')}.`
+          : ''),
       [{ text: 'OK' }]
     );
   };
 
-  const handleCancelPaddock = () => {
-    setShowPaddockModal(false);
+  const removeSetback = () => {
+    recordHistory();
+    setSetbackZones(prev => ({
+      ...prev,
+      features: prev.features.filter(zone => !zone.properties || zone.properties.sourceId !== selectedPolygonId)
+    }));
+    setAppState('editing');
   };
 
-  const handleBottomMenuSelect = (mode: BottomMenuMode) => {
-    setBottomMenuMode(mode);
-    switch (mode) {
-      case 'paddock':
-        setAppState('paddock-mode');
-        break;
-      case 'livestock':
-        setAppState('livestock-mode');
-        break;
-      case 'heatmap':
-        setAppState('heatmap-mode');
-        break;
-    }
+  // The part of a farm not already taken by paddocks or setback zones
+  const getFreeFarmArea = (farmId: string): number[][][][] => {
+    const farm = completedPolygons.features.find(feature => feature.properties && feature.properties.id === farmId);
+    if (!farm) return [];
+
+    const obstacles = [...getPaddocksForFarm(completedPolygons, farmId), ...getSetbackZonesForFarm(farmId)];
+    return subtractPolygons(farm.geometry.coordinates, obstacles.map(obstacle => obstacle.geometry.coordinates));
   };
 
-  const handleAddPaddock = () => {
-    setAppState('drawing-paddock');
-    setDrawingMode('paddock');
-    setSelectedPolygonId(null);
-    setCurrentPolygon([]);
-    Alert.alert(
-      'Draw Paddock',
-      'Tap on the map to add points for your paddock within the farm boundary.',
-      [{ text: 'OK' }]
-    );
+  const startSubdividing = () => {
+    if (!selectedPolygonId) return;
+    setAppState('subdividing');
   };
 
-  const clearAll = () => {
-    Alert.alert(
-      'Clear All',
-      'Are you sure you want to clear the farm and all paddocks? This will also remove all saved data.',
+  const applySubdivision = () => {
+    const farm = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === selectedPolygonId
+    ) as PolygonFeature | undefined;
+    if (!farm || subdivisionPreview.length === 0) {
+      Alert.alert('Error', 'There is no free area in this farm to subdivide.');
+      return;
+    }
+
+    const farmId = farm.properties.id;
+    const existingCount = getPaddocksForFarm(completedPolygons, farmId).length;
+    const timestamp = Date.now();
+    const newPaddocks: PolygonFeature[] = subdivisionPreview.map((rings, index) => addMeasurementsToFeature({
+      type: 'Feature',
+      properties: {
+        name: `Paddock ${existingCount + index + 1}`,
+        created: new Date().toISOString(),
+        id: `paddock_${timestamp}_${index}`,
+        type: 'paddock',
+        parentId: farmId,
+        purpose: 'Grazing',
+      },
+      geometry: {
+        type: 'Polygon',
+        coordinates: rings
+      }
+    }));
+
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: [...prev.features, ...newPaddocks]
+    }));
+    setSelectedFarmId(farmId);
+    setAppState('editing');
+
+    Alert.alert(
+      'Paddocks Created',
+      `${farm.properties.name} was divided into ${newPaddocks.length} paddocks.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const startMerging = () => {
+    if (!selectedPolygonId) return;
+
+    setAppState('merging');
+    setMergeSelectionIds([selectedPolygonId]);
+    Alert.alert(
+      'Merge Paddocks',
+      'Tap the neighbouring paddocks to merge with the selected one.',
+      [{ text: 'OK' }]
+    );
+  };
+
+  const cancelDrawing = () => {
+    if (appState === 'drawing-farm') {
+      // Adding another farm returns to the existing ones
+      setAppState(getFarmBoundaries(completedPolygons).length > 0 ? 'paddock-mode' : 'initial');
+    } else if (appState === 'drawing-paddock') {
+      setAppState('paddock-mode'); // Return to paddock mode
+    } else if (appState === 'drawing-fence') {
+      setAppState('fence-mode');
+    } else if (appState === 'drawing-hole' || appState === 'drawing-cut' || appState === 'simplifying' ||
+      appState === 'setback' || appState === 'subdividing') {
+      setAppState('editing'); // Return to editing the selected shape
+    } else if (appState === 'merging') {
+      setAppState('editing');
+      setMergeSelectionIds([]);
+    }
+    setCurrentPolygon([]);
+    setPendingPaddockPolygons(null);
+  };
+
+  // Warn about a drawing that crosses itself and offer to repair it
+  // Returns true when the drawing is already a valid simple ring
+  const checkDrawingIsSimple = (polygonCoords: number[][], onSplit: (polygons: number[][][][]) => void): boolean => {
+    const intersections = findSelfIntersections(polygonCoords);
+    if (intersections.length === 0) return true;
+
+    const pieces = splitSelfIntersectingPolygon(polygonCoords);
+    const reordered = reorderPolygonPoints(polygonCoords);
+    const canRepair = reordered !== null || pieces.length > 1;
+
+    Alert.alert(
+      'Boundary Crosses Itself',
+      `The boundary crosses itself at ${intersections.length} point${intersections.length === 1 ? '' : 's'} (highlighted in red). ` +
+        (canRepair ? 'Choose how to repair it.' : 'It cannot be repaired automatically; move or remove the crossing points.'),
+      [
+        { text: 'Keep Editing', style: 'cancel' },
+        ...(reordered ? [{
+          text: 'Reorder Points',
+          onPress: () => setCurrentPolygon(ringToDrawingPoints(reordered))
+        }] : []),
+        ...(pieces.length > 1 ? [{
+          text: `Split into ${pieces.length} Shapes`,
+          onPress: () => onSplit(pieces)
+        }] : [])
+      ]
+    );
+    return false;
+  };
+
+  const completeFarm = () => {
+    if (currentPolygon.length < 3) {
+      Alert.alert('Error', 'A farm boundary needs at least 3 points. Please add more points.');
+      return;
+    }
+
+    const polygonCoords = currentPolygon.map(point => point.coordinates);
+    if (!checkDrawingIsSimple(polygonCoords, openNewFarmInfoModal)) return;
+
+    openNewFarmInfoModal([[createClosedPolygon(polygonCoords)]]);
+  };
+
+  // Ask for the details of a newly drawn farm before saving it
+  const openNewFarmInfoModal = (polygons: number[][][][]) => {
+    setPendingFarmPolygons(polygons);
+    setEditingFarmId(null);
+    setFarmInfo({
+      name: `Farm ${getFarmBoundaries(completedPolygons).length + 1}`,
+      owner: '',
+      propertyCode: '',
+      address: '',
+      notes: ''
+    });
+    setShowFarmModal(true);
+  };
+
+  const openEditFarmInfoModal = (farmId: string) => {
+    const farm = getFarmBoundaries(completedPolygons).find(f => f.properties.id === farmId);
+    if (!farm) return;
+
+    setPendingFarmPolygons(null);
+    setEditingFarmId(farmId);
+    setFarmInfo({
+      name: farm.properties.name,
+      owner: farm.properties.owner || '',
+      propertyCode: farm.properties.propertyCode || '',
+      address: farm.properties.address || '',
+      notes: farm.properties.notes || ''
+    });
+    setShowFarmModal(true);
+  };
+
+  const handleSaveFarm = () => {
+    const details = {
+      owner: farmInfo.owner.trim() || undefined,
+      propertyCode: farmInfo.propertyCode.trim() || undefined,
+      address: farmInfo.address.trim() || undefined,
+      notes: farmInfo.notes.trim() || undefined
+    };
+
+    if (editingFarmId) {
+      updateCompletedPolygons(prev => ({
+        ...prev,
+        features: prev.features.map(feature =>
+          feature.properties && feature.properties.id === editingFarmId
+            ? { ...feature, properties: { ...feature.properties, name: farmInfo.name.trim(), ...details } }
+            : feature
+        )
+      }));
+    } else if (pendingFarmPolygons) {
+      saveFarms(pendingFarmPolygons, details);
+    }
+    handleCancelFarm();
+  };
+
+  const handleCancelFarm = () => {
+    setShowFarmModal(false);
+    setPendingFarmPolygons(null);
+    setEditingFarmId(null);
+  };
+
+  const saveFarms = (polygons: number[][][][], details: Partial<PolygonFeature['properties']>) => {
+    const timestamp = Date.now();
+    const isSplit = polygons.length > 1;
+    const newFeatures: PolygonFeature[] = polygons.map((rings, index) => {
+      const newPolygon: Polygon = {
+        type: 'Polygon',
+        coordinates: rings
+      };
+
+      return addMeasurementsToFeature({
+        type: 'Feature',
+        properties: {
+          ...details,
+          // Pieces of a farm drawn across itself are lettered like split paddocks
+          name: isSplit ? `${farmInfo.name.trim()} ${String.fromCharCode(65 + index)}` : farmInfo.name.trim(),
+          created: new Date().toISOString(),
+          id: index === 0 ? `farm_${timestamp}` : `farm_${timestamp}_${index}`,
+          type: 'farm',
+        },
+        geometry: newPolygon
+      });
+    });
+
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: [...prev.features, ...newFeatures]
+    }));
+
+    // Auto-select the completed farm (the largest piece when split)
+    setSelectedFarmId(newFeatures[0].properties.id);
+    setCurrentPolygon([]);
+    setAppState('paddock-mode'); // Directly go to paddock mode
+    setBottomMenuMode('paddock'); // Default to paddock mode
+    
+    Alert.alert(
+      'Farm Boundary Created!',
+      `Farm boundary completed with ${currentPolygon.length} points. You can now add paddocks using the + button.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const completePaddock = () => {
+    // Split shapes staged earlier are stale once the drawing is checked again
+    setPendingPaddockPolygons(null);
+
+    if (currentPolygon.length < 3) {
+      Alert.alert('Error', 'A paddock needs at least 3 points. Please add more points.');
+      return;
+    }
+
+    const polygonCoords = currentPolygon.map(point => point.coordinates);
+    if (!checkDrawingIsSimple(polygonCoords, validateSplitPaddocks)) return;
+
+    validateNewPaddock(getDrawingPaddockRings());
+  };
+
+  // The paddock drawing as rings: its outer ring plus the staged holes that still lie inside it
+  const getDrawingPaddockRings = (): number[][][] => {
+    const outerRing = createClosedPolygon(currentPolygon.map(point => point.coordinates));
+    return [outerRing, ...stagedPaddockHoles.filter(hole => isPaddockWithinFarm([hole], [outerRing]))];
+  };
+
+  // Use the given rings as the paddock drawing: the outer ring stays editable and the holes are kept
+  const stagePaddockRings = (rings: number[][][]) => {
+    setCurrentPolygon(ringToDrawingPoints(rings[0]));
+    setStagedPaddockHoles(rings.slice(1));
+  };
+
+  // Check a new paddock against the farm and existing paddocks, offering to fix it
+  const validateNewPaddock = (paddockRings: number[][][]) => {
+    // Validate paddock is within farm boundary
+    if (selectedFarmId) {
+      const selectedFarm = completedPolygons.features.find(f => 
+        f.properties && f.properties.id === selectedFarmId
+      );
+      
+      if (selectedFarm) {
+        const farmRings = selectedFarm.geometry.coordinates;
+        if (!isPaddockWithinFarm(paddockRings, farmRings)) {
+          const clippedRings = clipPolygonToBoundary(paddockRings, farmRings);
+
+          Alert.alert(
+            'Invalid Paddock',
+            'The paddock must be drawn completely within the farm boundary.' +
+              (clippedRings ? '' : '\n\nNo part of it lies inside the farm.'),
+            [
+              { text: 'Keep Drawing', style: 'cancel' },
+              ...(clippedRings ? [{
+                text: 'Clip to Farm Boundary',
+                onPress: () => {
+                  stagePaddockRings(clippedRings);
+                  validateNewPaddock(clippedRings);
+                }
+              }] : [])
+            ]
+          );
+          return;
+        }
+      }
+    }
+
+    // Validate paddock does not overlap other paddocks in the farm
+    const existingPaddocks = getPaddocksForFarm(completedPolygons, selectedFarmId || '');
+    const overlappingPaddocks = findOverlappingPaddocks(paddockRings, existingPaddocks);
+    if (overlappingPaddocks.length > 0) {
+      const conflictNames = overlappingPaddocks.map(paddock => paddock.properties.name).join(', ');
+      const trimmedRings = trimPolygonToFreeArea(paddockRings, overlappingPaddocks);
+
+      Alert.alert(
+        'Paddock Overlap',
+        `This paddock overlaps ${conflictNames}. Paddocks cannot overlap each other.` +
+          (trimmedRings ? '' : '\n\nThere is no free area left to trim it to.'),
+        [
+          { text: 'Keep Drawing', style: 'cancel' },
+          ...(trimmedRings ? [{
+            text: 'Trim to Free Area',
+            onPress: () => {
+              stagePaddockRings(trimmedRings);
+              validateNewPaddock(trimmedRings);
+            }
+          }] : [])
+        ]
+      );
+      return;
+    }
+
+    // Validate paddock stays out of the farm's setback zones
+    const farmSetbacks = getSetbackZonesForFarm(selectedFarmId || '');
+    const overlappingSetbacks = findOverlappingPaddocks(paddockRings, farmSetbacks);
+    if (overlappingSetbacks.length > 0) {
+      const trimmedRings = trimPolygonToFreeArea(paddockRings, overlappingSetbacks);
+
+      Alert.alert(
+        'Setback Zone',
+        `This paddock extends into ${overlappingSetbacks.map(zone => zone.properties.name).join(', ')}. Paddocks must stay out of setback zones.` +
+          (trimmedRings ? '' : '\n\nThere is no free area left to trim it to.'),
+        [
+          { text: 'Keep Drawing', style: 'cancel' },
+          ...(trimmedRings ? [{
+            text: 'Trim to Free Area',
+            onPress: () => {
+              stagePaddockRings(trimmedRings);
+              validateNewPaddock(trimmedRings);
+            }
+          }] : [])
+        ]
+      );
+      return;
+    }
+
+    openPaddockInfoModal();
+  };
+
+  const validateSplitPaddocks = (polygons: number[][][][]) => {
+    const selectedFarm = completedPolygons.features.find(f =>
+      f.properties && f.properties.id === selectedFarmId
+    );
+    const existingPaddocks = getPaddocksForFarm(completedPolygons, selectedFarmId || '');
+    const farmSetbacks = getSetbackZonesForFarm(selectedFarmId || '');
+
+    const isValid = polygons.every(rings =>
+      (!selectedFarm || isPaddockWithinFarm(rings, selectedFarm.geometry.coordinates)) &&
+      findOverlappingPaddocks(rings, existingPaddocks).length === 0 &&
+      findOverlappingPaddocks(rings, farmSetbacks).length === 0
+    );
+
+    if (!isValid) {
+      Alert.alert(
+        'Invalid Paddock',
+        'The split paddocks must be completely within the farm boundary and must not overlap other paddocks or setback zones.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    setPendingPaddockPolygons(polygons);
+    openPaddockInfoModal();
+  };
+
+  const openPaddockInfoModal = () => {
+    // Show paddock info modal
+    const paddockCount = getPaddocksForFarm(completedPolygons, selectedFarmId || '').length;
+    setPaddockInfo({
+      name: `Paddock ${paddockCount + 1}`,
+      purpose: 'Grazing',
+      capacity: '',
+      notes: ''
+    });
+    setShowPaddockModal(true);
+  };
+
+  const openEditPaddockInfoModal = (paddockId: string) => {
+    const paddock = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === paddockId
+    ) as PolygonFeature | undefined;
+    if (!paddock) return;
+
+    setEditingPaddockId(paddockId);
+    setPaddockInfo({
+      name: paddock.properties.name,
+      purpose: paddock.properties.purpose || 'Grazing',
+      capacity: paddock.properties.capacity !== undefined ? paddock.properties.capacity.toString() : '',
+      notes: paddock.properties.notes || ''
+    });
+    setShowPaddockModal(true);
+  };
+
+  const saveEditedPaddock = (paddockId: string) => {
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: prev.features.map(feature =>
+        feature.properties && feature.properties.id === paddockId
+          ? {
+            ...feature,
+            properties: {
+              ...feature.properties,
+              name: paddockInfo.name.trim(),
+              purpose: paddockInfo.purpose,
+              capacity: paddockInfo.capacity ? parseInt(paddockInfo.capacity) : undefined,
+              notes: paddockInfo.notes.trim() || undefined
+            }
+          }
+          : feature
+      )
+    }));
+    handleCancelPaddock();
+  };
+
+  // Remove a paddock along with its livestock records and any setback zone around it
+  const deletePaddock = (paddockId: string) => {
+    const paddock = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === paddockId
+    );
+    if (!paddock || !paddock.properties) return;
+
+    Alert.alert(
+      'Delete Paddock',
+      `Delete ${paddock.properties.name}? Its livestock records will be removed too.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            const remaining = removePaddock({ completedPolygons, livestockData, setbackZones, infrastructure }, paddockId);
+            updateCompletedPolygons(() => remaining.completedPolygons);
+            setLivestockData(remaining.livestockData);
+            setSetbackZones(remaining.setbackZones);
+            setInfrastructure(remaining.infrastructure);
+            if (selectedPolygonId === paddockId) {
+              setSelectedPolygonId(null);
+            }
+            handleCancelPaddock();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleSavePaddock = () => {
+    if (editingPaddockId) {
+      saveEditedPaddock(editingPaddockId);
+      return;
+    }
+    if (pendingSplit) {
+      saveSplitPiece(pendingSplit);
+      return;
+    }
+    if (pendingMerge) {
+      saveMerge(pendingMerge);
+      return;
+    }
+
+    const polygons = pendingPaddockPolygons || [getDrawingPaddockRings()];
+    const timestamp = Date.now();
+
+    const newFeatures: PolygonFeature[] = polygons.map((rings, index) => {
+      const newPolygon: Polygon = {
+        type: 'Polygon',
+        coordinates: rings
+      };
+      const isSplit = polygons.length > 1;
+
+      return addMeasurementsToFeature({
+        type: 'Feature',
+        properties: {
+          // Split pieces are lettered: "North Paddock A", "North Paddock B"
+          name: isSplit ? `${paddockInfo.name.trim()} ${String.fromCharCode(65 + index)}` : paddockInfo.name.trim(),
+          created: new Date().toISOString(),
+          id: isSplit ? `paddock_${timestamp}_${index}` : `paddock_${timestamp}`,
+          type: 'paddock',
+          parentId: selectedFarmId || undefined,
+          purpose: paddockInfo.purpose,
+          capacity: paddockInfo.capacity ? parseInt(paddockInfo.capacity) : undefined,
+          notes: paddockInfo.notes.trim() || undefined,
+        },
+        geometry: newPolygon
+      });
+    });
+
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: [...prev.features, ...newFeatures]
+    }));
+
+    setCurrentPolygon([]);
+    setPendingPaddockPolygons(null);
+    setAppState('paddock-mode');
+    setShowPaddockModal(false);
+    
+    Alert.alert(
+      'Paddock Created!',
+      polygons.length > 1
+        ? `${paddockInfo.name} was split into ${polygons.length} paddocks.`
+        : `${paddockInfo.name} created successfully with ${currentPolygon.length} points.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const handleCancelPaddock = () => {
+    setShowPaddockModal(false);
+    setEditingPaddockId(null);
+    setPendingPaddockPolygons(null);
+    setPendingSplit(null);
+    setPendingMerge(null);
+  };
+
+  const completeMerge = () => {
+    const paddocks = completedPolygons.features.filter(
+      feature => feature.properties && mergeSelectionIds.includes(feature.properties.id)
+    ) as PolygonFeature[];
+    if (paddocks.length < 2) {
+      Alert.alert('Error', 'Select at least 2 paddocks to merge.');
+      return;
+    }
+
+    const merged = unionPolygons(paddocks.map(paddock => paddock.geometry.coordinates));
+    if (merged.length !== 1) {
+      Alert.alert(
+        'Cannot Merge',
+        'The selected paddocks must share a boundary so they form a single paddock.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    // Start from the details of the largest paddock, with capacity and notes combined
+    const largest = [...paddocks].sort((a, b) => (b.properties.area ?? 0) - (a.properties.area ?? 0))[0];
+    const totalCapacity = paddocks.reduce((total, paddock) => total + (paddock.properties.capacity ?? 0), 0);
+    const notes = paddocks.map(paddock => paddock.properties.notes).filter(Boolean).join('\n');
+
+    // Drop slivers left between fence lines that did not quite meet
+    const [outer, ...holes] = merged[0];
+    const rings = [outer, ...holes.filter(hole => calculatePolygonRingsArea([hole]) > MIN_OVERLAP_AREA)];
+
+    setPendingMerge({ sourceIds: paddocks.map(paddock => paddock.properties.id), rings });
+    setPaddockInfo({
+      name: largest.properties.name,
+      purpose: largest.properties.purpose || 'Grazing',
+      capacity: totalCapacity > 0 ? totalCapacity.toString() : '',
+      notes
+    });
+    setShowPaddockModal(true);
+  };
+
+  // Replace the merged paddocks with one and move their livestock records onto it
+  const saveMerge = (merge: PaddockMerge) => {
+    const sourcePaddocks = completedPolygons.features.filter(
+      feature => feature.properties && merge.sourceIds.includes(feature.properties.id)
+    ) as PolygonFeature[];
+    if (sourcePaddocks.length === 0) {
+      handleCancelPaddock();
+      return;
+    }
+
+    const mergedId = `paddock_${Date.now()}`;
+    const mergedFeature = addMeasurementsToFeature({
+      type: 'Feature',
+      properties: {
+        name: paddockInfo.name.trim(),
+        created: new Date().toISOString(),
+        id: mergedId,
+        type: 'paddock',
+        parentId: sourcePaddocks[0].properties.parentId,
+        purpose: paddockInfo.purpose,
+        capacity: paddockInfo.capacity ? parseInt(paddockInfo.capacity) : undefined,
+        notes: paddockInfo.notes.trim() || undefined,
+      },
+      geometry: {
+        type: 'Polygon',
+        coordinates: merge.rings
+      }
+    } as PolygonFeature);
+
+    setLivestockData(prev => prev.map(data =>
+      merge.sourceIds.includes(data.paddockId) ? { ...data, paddockId: mergedId } : data
+    ));
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: [
+        ...prev.features.filter(feature => !feature.properties || !merge.sourceIds.includes(feature.properties.id)),
+        mergedFeature
+      ]
+    }));
+    carrySetbackZones(merge.sourceIds, [mergedFeature]);
+
+    setPendingMerge(null);
+    setShowPaddockModal(false);
+    setMergeSelectionIds([]);
+    setSelectedPolygonId(mergedId);
+    setAppState('editing');
+
+    Alert.alert(
+      'Paddocks Merged',
+      `${sourcePaddocks.map(paddock => paddock.properties.name).join(', ')} merged into ${mergedFeature.properties.name}.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  // Details for one piece of a split paddock: lettered name, inherited purpose and notes,
+  // and a share of the capacity in proportion to area
+  const getSplitPieceInfo = (source: PolygonFeature, polygons: number[][][][], index: number): PaddockInfo => {
+    const { name, purpose, capacity, notes } = source.properties;
+    const areaShare = calculatePolygonRingsArea(polygons[index]) / calculateMultiPolygonArea(polygons);
+
+    return {
+      name: `${name} ${String.fromCharCode(65 + index)}`,
+      purpose: purpose || 'Grazing',
+      capacity: capacity ? Math.round(capacity * areaShare).toString() : '',
+      notes: notes || ''
+    };
+  };
+
+  const completeSplit = () => {
+    const sourceFeature = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === selectedPolygonId
+    ) as PolygonFeature | undefined;
+    if (!sourceFeature) {
+      Alert.alert('Error', 'Select a paddock before drawing a cut line.');
+      setAppState('editing');
+      setCurrentPolygon([]);
+      return;
+    }
+
+    if (currentPolygon.length < 2) {
+      Alert.alert('Error', 'A cut line needs at least 2 points. Please add more points.');
+      return;
+    }
+
+    const polygons = splitPolygonWithLine(
+      sourceFeature.geometry.coordinates,
+      currentPolygon.map(point => point.coordinates)
+    );
+    if (!polygons) {
+      Alert.alert(
+        'Invalid Cut Line',
+        `The cut line must cross the boundary of ${sourceFeature.properties.name} exactly twice and must not cross its holes.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    setPendingSplit({ sourceId: sourceFeature.properties.id, polygons, pieceInfos: [] });
+    setPaddockInfo(getSplitPieceInfo(sourceFeature, polygons, 0));
+    setShowPaddockModal(true);
+  };
+
+  // Collect the details for the current piece, then replace the paddock once every piece is named
+  const saveSplitPiece = (split: PaddockSplit) => {
+    const sourceFeature = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === split.sourceId
+    ) as PolygonFeature | undefined;
+    if (!sourceFeature) {
+      handleCancelPaddock();
+      return;
+    }
+
+    const pieceInfos = [...split.pieceInfos, paddockInfo];
+    if (pieceInfos.length < split.polygons.length) {
+      setPendingSplit({ ...split, pieceInfos });
+      setPaddockInfo(getSplitPieceInfo(sourceFeature, split.polygons, pieceInfos.length));
+      return;
+    }
+
+    const timestamp = Date.now();
+    const newFeatures: PolygonFeature[] = split.polygons.map((rings, index) => addMeasurementsToFeature({
+      type: 'Feature',
+      properties: {
+        name: pieceInfos[index].name.trim(),
+        created: new Date().toISOString(),
+        id: `paddock_${timestamp}_${index}`,
+        type: 'paddock',
+        parentId: sourceFeature.properties.parentId,
+        purpose: pieceInfos[index].purpose,
+        capacity: pieceInfos[index].capacity ? parseInt(pieceInfos[index].capacity) : undefined,
+        notes: pieceInfos[index].notes.trim() || undefined,
+      },
+      geometry: {
+        type: 'Polygon',
+        coordinates: rings
+      }
+    }));
+
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: [
+        ...prev.features.filter(feature => !feature.properties || feature.properties.id !== split.sourceId),
+        ...newFeatures
+      ]
+    }));
+    carrySetbackZones([split.sourceId], newFeatures);
+
+    setPendingSplit(null);
+    setShowPaddockModal(false);
+    setCurrentPolygon([]);
+    setSelectedPolygonId(null);
+    setAppState('editing');
+
+    Alert.alert(
+      'Paddock Split',
+      `${sourceFeature.properties.name} was split into ${newFeatures.map(feature => feature.properties.name).join(' and ')}.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const completeHole = () => {
+    if (currentPolygon.length < 3) {
+      Alert.alert('Error', 'A hole needs at least 3 points. Please add more points.');
+      return;
+    }
+
+    const targetFeature = completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === selectedPolygonId
+    ) as PolygonFeature | undefined;
+    if (!targetFeature) {
+      Alert.alert('Error', 'Select a farm or paddock before drawing a hole.');
+      setAppState('editing');
+      setCurrentPolygon([]);
+      return;
+    }
+
+    const polygonCoords = currentPolygon.map(point => point.coordinates);
+    if (findSelfIntersections(polygonCoords).length > 0) {
+      Alert.alert('Invalid Hole', 'The hole outline crosses itself. Drag the points to fix it.', [{ text: 'OK' }]);
+      return;
+    }
+
+    const hole = createClosedPolygon(polygonCoords);
+    if (!canAddHoleToPolygon(hole, targetFeature.geometry.coordinates)) {
+      Alert.alert(
+        'Invalid Hole',
+        `The hole must be drawn completely inside ${targetFeature.properties.name} and must not overlap its other holes.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    const newRings = [...targetFeature.geometry.coordinates, hole];
+
+    // Paddocks must not cover an area cut out of their farm
+    if (targetFeature.properties.type === 'farm') {
+      const coveringPaddocks = getPaddocksForFarm(completedPolygons, targetFeature.properties.id)
+        .filter(paddock => !isPaddockWithinFarm(paddock.geometry.coordinates, newRings));
+      if (coveringPaddocks.length > 0) {
+        Alert.alert(
+          'Invalid Hole',
+          `The hole overlaps ${coveringPaddocks.map(paddock => paddock.properties.name).join(', ')}. Add the hole to the paddock instead.`,
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+    }
+
+    updatePolygonRings(targetFeature.properties.id, newRings);
+    setCurrentPolygon([]);
+    setAppState('editing');
+
+    Alert.alert(
+      'Hole Added',
+      `Excluded area added to ${targetFeature.properties.name}.`,
+      [{ text: 'OK' }]
+    );
+  };
+
+  const openNewInfrastructureModal = (coordinates: number[]) => {
+    const label = INFRASTRUCTURE_TYPES.find(option => option.type === placementType)?.label || 'Point';
+    const sameTypeCount = infrastructure.features.filter(feature => feature.properties.type === placementType).length;
+
+    setPendingInfrastructurePoint(coordinates);
+    setInfrastructureInfo({
+      name: `${label} ${sameTypeCount + 1}`,
+      type: placementType,
+      status: 'working',
+      capacity: '',
+      notes: ''
+    });
+    setShowInfrastructureModal(true);
+  };
+
+  const openEditInfrastructureModal = (infrastructureId: string) => {
+    const point = infrastructure.features.find(feature => feature.properties.id === infrastructureId);
+    if (!point) return;
+
+    setEditingInfrastructureId(infrastructureId);
+    setInfrastructureInfo({
+      name: point.properties.name,
+      type: point.properties.type,
+      status: point.properties.status,
+      capacity: point.properties.capacity !== undefined ? point.properties.capacity.toString() : '',
+      notes: point.properties.notes || ''
+    });
+    setShowInfrastructureModal(true);
+  };
+
+  const handleCancelInfrastructure = () => {
+    setShowInfrastructureModal(false);
+    setPendingInfrastructurePoint(null);
+    setEditingInfrastructureId(null);
+  };
+
+  const handleSaveInfrastructure = () => {
+    const hasCapacity = INFRASTRUCTURE_TYPES.some(option => option.type === infrastructureInfo.type && option.capacityUnit);
+    const details = {
+      name: infrastructureInfo.name.trim(),
+      type: infrastructureInfo.type,
+      status: infrastructureInfo.status,
+      capacity: hasCapacity && infrastructureInfo.capacity ? parseInt(infrastructureInfo.capacity) : undefined,
+      notes: infrastructureInfo.notes.trim() || undefined
+    };
+
+    if (editingInfrastructureId) {
+      updateInfrastructure(prev => ({
+        ...prev,
+        features: prev.features.map(feature =>
+          feature.properties.id === editingInfrastructureId
+            ? { ...feature, properties: { ...feature.properties, ...details } }
+            : feature
+        )
+      }));
+    } else if (pendingInfrastructurePoint) {
+      const newPoint: InfrastructureFeature = {
+        type: 'Feature',
+        properties: {
+          id: `infrastructure_${Date.now()}`,
+          created: new Date().toISOString(),
+          ...details
+        },
+        geometry: {
+          type: 'Point',
+          coordinates: pendingInfrastructurePoint
+        }
+      };
+      // Link the new point to its farm and paddock straight away
+      updateInfrastructure(prev => assignInfrastructureToPaddocks(
+        { ...prev, features: [...prev.features, newPoint] },
+        featureIndex
+      ));
+    }
+
+    // Remember the type so the next tap places another of the same kind
+    setPlacementType(infrastructureInfo.type);
+    handleCancelInfrastructure();
+  };
+
+  const deleteInfrastructure = (infrastructureId: string) => {
+    const point = infrastructure.features.find(feature => feature.properties.id === infrastructureId);
+    if (!point) return;
+
+    Alert.alert(
+      'Delete Infrastructure',
+      `Delete ${point.properties.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            updateInfrastructure(prev => ({
+              ...prev,
+              features: prev.features.filter(feature => feature.properties.id !== infrastructureId)
+            }));
+            handleCancelInfrastructure();
+          }
+        }
+      ]
+    );
+  };
+
+  // Name the paddock, or failing that the farm, under an infrastructure point
+  const getInfrastructureLocation = (coordinates: number[]): string | undefined => {
+    const containing = findFeaturesAtPoint(featureIndex, coordinates);
+    const paddock = containing.find(feature => feature.properties.type === 'paddock');
+    const farm = containing.find(feature => feature.properties.type === 'farm');
+
+    if (paddock) return paddock.properties.name;
+    return farm ? `${farm.properties.name} (outside paddocks)` : undefined;
+  };
+
+  const startDrawingFence = () => {
+    setAppState('drawing-fence');
+    setDrawingMode('fence');
+    setSelectedPolygonId(null);
+    setCurrentPolygon([]);
+    Alert.alert(
+      'Draw Fence',
+      'Tap on the map to add points along the fence line.',
+      [{ text: 'OK' }]
+    );
+  };
+
+  const completeFence = () => {
+    if (currentPolygon.length < 2) {
+      Alert.alert('Error', 'A fence needs at least 2 points.');
+      return;
+    }
+
+    setPendingFenceLine(currentPolygon.map(point => point.coordinates));
+    setFenceInfo({
+      name: `Fence ${fences.features.length + 1}`,
+      material: 'barbed-wire',
+      wireCount: '',
+      electric: false,
+      condition: 'good',
+      notes: ''
+    });
+    setShowFenceModal(true);
+  };
+
+  const openEditFenceModal = (fenceId: string) => {
+    const fence = fences.features.find(feature => feature.properties.id === fenceId);
+    if (!fence) return;
+
+    setEditingFenceId(fenceId);
+    setFenceInfo({
+      name: fence.properties.name,
+      material: fence.properties.material,
+      wireCount: fence.properties.wireCount !== undefined ? fence.properties.wireCount.toString() : '',
+      electric: fence.properties.electric,
+      condition: fence.properties.condition,
+      notes: fence.properties.notes || ''
+    });
+    setShowFenceModal(true);
+  };
+
+  // Closing the details of a new fence keeps its points so drawing can continue
+  const handleCancelFence = () => {
+    setShowFenceModal(false);
+    setPendingFenceLine(null);
+    setEditingFenceId(null);
+  };
+
+  const handleSaveFence = () => {
+    const details = {
+      name: fenceInfo.name.trim(),
+      material: fenceInfo.material,
+      wireCount: fenceInfo.wireCount ? parseInt(fenceInfo.wireCount) : undefined,
+      electric: fenceInfo.electric,
+      condition: fenceInfo.condition,
+      notes: fenceInfo.notes.trim() || undefined
+    };
+
+    if (editingFenceId) {
+      updateFences(prev => ({
+        ...prev,
+        features: prev.features.map(feature =>
+          feature.properties.id === editingFenceId
+            ? { ...feature, properties: { ...feature.properties, ...details } }
+            : feature
+        )
+      }));
+    } else if (pendingFenceLine) {
+      const newFence: FenceFeature = {
+        type: 'Feature',
+        properties: {
+          id: `fence_${Date.now()}`,
+          created: new Date().toISOString(),
+          farmId: selectedFarmId || undefined,
+          length: calculateLineLength(pendingFenceLine),
+          ...details
+        },
+        geometry: {
+          type: 'LineString',
+          coordinates: pendingFenceLine
+        }
+      };
+      updateFences(prev => ({ ...prev, features: [...prev.features, newFence] }));
+      setCurrentPolygon([]);
+      setAppState('fence-mode');
+    }
+
+    handleCancelFence();
+  };
+
+  const deleteFence = (fenceId: string) => {
+    const fence = fences.features.find(feature => feature.properties.id === fenceId);
+    if (!fence) return;
+
+    Alert.alert(
+      'Delete Fence',
+      `Delete ${fence.properties.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            updateFences(prev => ({
+              ...prev,
+              features: prev.features.filter(feature => feature.properties.id !== fenceId)
+            }));
+            handleCancelFence();
+          }
+        }
+      ]
+    );
+  };
+
+  const getFarmData = (): FarmData => ({
+    polygons: completedPolygons,
+    livestockData,
+    infrastructure,
+    fences
+  });
+
+  const openImportExportModal = () => {
+    setImportPreview(null);
+    setShowImportExportModal(true);
+  };
+
+  const closeImportExportModal = () => {
+    setShowImportExportModal(false);
+    setImportPreview(null);
+  };
+
+  const handleExport = async () => {
+    const farm = getFarmBoundaries(completedPolygons).find(f => f.properties.id === selectedFarmId);
+    const name = farm?.properties.name || 'Farm Data';
+    const { extension, mimeType } = EXCHANGE_FORMATS.find(option => option.format === exportFormat)!;
+    // Farm names can hold characters that are not allowed in file names
+    const fileName = name.replace(/[\\/:*?"<>|]/g, '_');
+    const path = `${RNFS.CachesDirectoryPath}/${fileName}.${extension}`;
+
+    try {
+      // KMZ is a zip archive, which is written from base64 as the file system only takes text
+      if (exportFormat === 'kmz') {
+        await RNFS.writeFile(path, fromByteArray(writeKMZ(getFarmData(), name)), 'base64');
+      } else {
+        const write = exportFormat === 'kml' ? writeKML : writeGeoJSON;
+        await RNFS.writeFile(path, write(getFarmData(), name), 'utf8');
+      }
+      await Share.open({ url: `file://${path}`, type: mimeType, filename: fileName, failOnCancel: false });
+    } catch (error) {
+      console.error('Error exporting farm data:', error);
+      Alert.alert('Export Failed', 'The farm data could not be shared.', [{ text: 'OK' }]);
+    }
+  };
+
+  // The format is told apart by the text: XML for KML, otherwise GeoJSON
+  const readImportText = (text: string): ImportResult => {
+    const trimmed = text.trim();
+    return trimmed.startsWith('<') ? readKML(trimmed, completedPolygons) : readGeoJSON(trimmed, completedPolygons);
+  };
+
+  const showImportPreview = (result: ImportResult) => {
+    if (!result.data) {
+      const extra = result.errors.length > 5 ? `\n…and ${result.errors.length - 5} more` : '';
+      Alert.alert('Import Failed', result.errors.slice(0, 5).join('\n') + extra, [{ text: 'OK' }]);
+      return;
+    }
+    setImportPreview({ data: result.data, conflicts: findImportConflicts(result.data, getFarmData()) });
+  };
+
+  const handleCheckImport = () => {
+    showImportPreview(readImportText(importText));
+  };
+
+  const handleChooseImportFile = async () => {
+    try {
+      const [file] = await pick({ mode: 'import' });
+      // Copy the pick into the app's caches so it can be read as a plain file
+      const [copy] = await keepLocalCopy({
+        files: [{ uri: file.uri, fileName: file.name || 'import' }],
+        destination: 'cachesDirectory'
+      });
+      if (copy.status === 'error') {
+        throw new Error(copy.copyError);
+      }
+
+      // Read as base64 so KMZ archives keep their bytes; KML and GeoJSON files are UTF-8 text
+      const bytes = toByteArray(await RNFS.readFile(decodeURIComponent(copy.localUri.replace('file://', '')), 'base64'));
+      showImportPreview(isZip(bytes) ? readKMZ(bytes, completedPolygons) : readImportText(strFromU8(bytes)));
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) return;
+      console.error('Error importing farm data file:', error);
+      Alert.alert('Import Failed', 'The file could not be read.', [{ text: 'OK' }]);
+    }
+  };
+
+  const handleConfirmImport = (strategy: ImportMergeStrategy) => {
+    if (!importPreview) return;
+
+    const previousIds = new Set(completedPolygons.features.map(feature => feature.properties?.id));
+    const merged = mergeImportedFarmData(getFarmData(), importPreview.data, strategy);
+    updateCompletedPolygons(() => merged.polygons);
+    setLivestockData(merged.livestockData);
+    setInfrastructure(merged.infrastructure);
+    setFences(merged.fences);
+
+    // Show the first imported farm: a new one, or one that replaced an existing farm
+    const importedIds = new Set(importPreview.data.polygons.map(polygon => polygon.properties.id));
+    const farms = getFarmBoundaries(merged.polygons);
+    const importedFarm = farms.find(farm => !previousIds.has(farm.properties.id)) ||
+      farms.find(farm => importedIds.has(farm.properties.id));
+    if (importedFarm) {
+      setSelectedFarmId(importedFarm.properties.id);
+    }
+    if (appState === 'initial') {
+      setAppState('paddock-mode');
+      setBottomMenuMode('paddock');
+    }
+
+    setImportText('');
+    closeImportExportModal();
+    Alert.alert('Import Complete', 'The imported data has been added to your farms.', [{ text: 'OK' }]);
+  };
+
+  const handleBottomMenuSelect = (mode: BottomMenuMode) => {
+    setBottomMenuMode(mode);
+    switch (mode) {
+      case 'paddock':
+        setAppState('paddock-mode');
+        break;
+      case 'livestock':
+        setAppState('livestock-mode');
+        break;
+      case 'heatmap':
+        setAppState('heatmap-mode');
+        break;
+      case 'infrastructure':
+        setAppState('infrastructure-mode');
+        break;
+      case 'fence':
+        setAppState('fence-mode');
+        break;
+    }
+  };
+
+  const handleAddPaddock = () => {
+    setAppState('drawing-paddock');
+    setDrawingMode('paddock');
+    setSelectedPolygonId(null);
+    setCurrentPolygon([]);
+    Alert.alert(
+      'Draw Paddock',
+      'Tap on the map to add points for your paddock within the farm boundary.',
+      [{ text: 'OK' }]
+    );
+  };
+
+  const clearAll = () => {
+    Alert.alert(
+      'Clear All',
+      'Are you sure you want to clear the farm and all paddocks? This will also remove all saved data.',
       [
         { text: 'Cancel', style: 'cancel' },
         { 
@@ -410,7 +2038,9 @@ const HomeScreen: React.FC = () => {
           onPress: () => {
             // Clear all state
             setCompletedPolygons({ type: 'FeatureCollection', features: [] });
+            setSetbackZones({ type: 'FeatureCollection', features: [] });
             setCurrentPolygon([]);
+            setHistory({ undo: [], redo: [] });
             setAppState('initial');
             setIsEditMode(false);
             setSelectedPolygonId(null);
@@ -419,6 +2049,8 @@ const HomeScreen: React.FC = () => {
             setLivestockData([]);
             setLivestockAnnotations([]);
             setHeatmapData([]);
+            setInfrastructure({ type: 'FeatureCollection', features: [] });
+            setFences({ type: 'FeatureCollection', features: [] });
             
             // Clear storage
             clearAllData();
@@ -429,6 +2061,32 @@ const HomeScreen: React.FC = () => {
     );
   };
 
+  const isDrawing = appState === 'drawing-farm' || appState === 'drawing-paddock' ||
+    appState === 'drawing-hole' || appState === 'drawing-cut' || appState === 'drawing-fence';
+  const isDrawingLine = appState === 'drawing-cut' || appState === 'drawing-fence';
+  const isMenuMode = appState === 'paddock-mode' || appState === 'livestock-mode' ||
+    appState === 'heatmap-mode' || appState === 'infrastructure-mode' || appState === 'fence-mode';
+  const drawingColor = drawingMode === 'farm'
+    ? COLORS.FARM_BOUNDARY
+    : drawingMode === 'hole' ? COLORS.HOLE
+    : drawingMode === 'cut' ? COLORS.ERROR
+    : drawingMode === 'fence' ? COLORS.FENCE : COLORS.PADDOCK;
+
+  // Pull a coordinate onto nearby vertices or edges, within a fixed distance on screen
+  const snapCoordinate = (coordinate: number[], excludeId?: string): number[] => {
+    if (!isSnappingEnabled) return coordinate;
+
+    const toleranceMetres = getMetresPerPixel(coordinate[1], mapZoom) * MAP_CONFIG.SNAP_TOLERANCE_PIXELS;
+    const snap = snapToFeatures(coordinate, completedPolygons.features as PolygonFeature[], toleranceMetres, excludeId);
+    setSnapIndicator(snap);
+    return snap ? snap.coordinates : coordinate;
+  };
+
+  const toggleSnapping = () => {
+    setIsSnappingEnabled(prev => !prev);
+    setSnapIndicator(null);
+  };
+
   const onMapPress = (event: any) => {
     if (!event || !event.geometry || !event.geometry.coordinates) {
       return;
@@ -437,57 +2095,313 @@ const HomeScreen: React.FC = () => {
     const { geometry } = event;
     const [longitude, latitude] = geometry.coordinates;
     
-    if (appState === 'drawing-farm' || appState === 'drawing-paddock') {
+    if (isDrawing) {
       const newPoint: DrawingPoint = {
-        coordinates: [longitude, latitude],
+        coordinates: snapCoordinate([longitude, latitude]),
         id: `point_${Date.now()}_${Math.random()}`
       };
       
+      recordHistory();
       setCurrentPolygon(prev => [...prev, newPoint]);
       
-    } else if (isEditMode) {
-      const tappedPolygon = completedPolygons.features.find(feature => {
-        const coords = feature.geometry.coordinates[0];
-        return isPointInPolygon([longitude, latitude], coords);
-      });
-      
-      if (tappedPolygon && tappedPolygon.properties) {
-        setSelectedPolygonId(tappedPolygon.properties.id);
-      } else {
-        setSelectedPolygonId(null);
+    } else if (isMenuMode) {
+      const tappedFeatures = findFeaturesAtPoint(featureIndex, [longitude, latitude]);
+
+      // Tapping a paddock of the selected farm opens its details
+      const tappedPaddock = tappedFeatures.find(feature => feature.properties.type === 'paddock');
+      if (appState === 'paddock-mode' && tappedPaddock && tappedPaddock.properties.parentId === selectedFarmId) {
+        openEditPaddockInfoModal(tappedPaddock.properties.id);
+        return;
       }
+
+      // Tapping another farm switches to it
+      const tappedFarm = tappedFeatures.find(feature => feature.properties.type === 'farm');
+      if (tappedFarm && tappedFarm.properties.id !== selectedFarmId) {
+        setSelectedFarmId(tappedFarm.properties.id);
+        return;
+      }
+
+      if (appState === 'infrastructure-mode') {
+        if (tappedFarm) {
+          openNewInfrastructureModal([longitude, latitude]);
+        } else {
+          Alert.alert('Outside Farm', 'Place infrastructure inside a farm boundary.', [{ text: 'OK' }]);
+        }
+      }
+    } else if (appState === 'measuring') {
+      setMeasurePoints(prev => [...prev, snapCoordinate([longitude, latitude])]);
+    } else if (appState === 'merging') {
+      // Toggle paddocks of the same farm in and out of the merge
+      const firstPaddock = completedPolygons.features.find(
+        feature => feature.properties && feature.properties.id === mergeSelectionIds[0]
+      );
+      const tappedPaddock = findFeaturesAtPoint(featureIndex, [longitude, latitude]).find(feature =>
+        feature.properties.type === 'paddock' &&
+        feature.properties.parentId === firstPaddock?.properties?.parentId
+      );
+
+      if (tappedPaddock) {
+        const tappedId = tappedPaddock.properties.id;
+        setMergeSelectionIds(prev =>
+          prev.includes(tappedId) ? prev.filter(id => id !== tappedId) : [...prev, tappedId]
+        );
+      }
+    } else if (isEditMode) {
+      // Pick the smallest feature under the tap; tapping inside the selection again
+      // cycles outwards through the overlapping features (e.g. paddock, then farm)
+      const tappedFeatures = findFeaturesAtPoint(featureIndex, [longitude, latitude]);
+      const selectedIndex = tappedFeatures.findIndex(feature => feature.properties.id === selectedPolygonId);
+      const tappedPolygon = tappedFeatures[(selectedIndex + 1) % Math.max(tappedFeatures.length, 1)];
+
+      setSelectedPolygonId(tappedPolygon ? tappedPolygon.properties.id : null);
     }
   };
 
-  const onVertexDrag = (vertexIndex: number, newCoordinate: number[]) => {
-    if (!selectedPolygonId) return;
-
-    setCompletedPolygons(prev => ({
+  const updatePolygonRings = (polygonId: string, newRings: number[][][]) => {
+    updateCompletedPolygons(prev => ({
       ...prev,
       features: prev.features.map(feature => {
-        if (feature.properties && feature.properties.id === selectedPolygonId) {
-          const newCoords = [...feature.geometry.coordinates[0]];
-          newCoords[vertexIndex] = newCoordinate;
-          newCoords[newCoords.length - 1] = newCoords[0]; // Update closing point
-          
-          return {
+        if (feature.properties && feature.properties.id === polygonId) {
+          return addMeasurementsToFeature({
             ...feature,
             geometry: {
               ...feature.geometry,
-              coordinates: [newCoords]
+              coordinates: newRings
             }
-          };
+          } as PolygonFeature);
         }
         return feature;
       })
     }));
   };
 
+  // Clip paddocks to an edited farm boundary, removing any left entirely outside it
+  const clipPaddocksToFarm = (paddocks: PolygonFeature[], farmRings: number[][][]) => {
+    const clippedRings = new Map(
+      paddocks.map(paddock => [paddock.properties.id, clipPolygonToBoundary(paddock.geometry.coordinates, farmRings)])
+    );
+    const removedNames = paddocks
+      .filter(paddock => clippedRings.get(paddock.properties.id) === null)
+      .map(paddock => paddock.properties.name);
+
+    updateCompletedPolygons(prev => ({
+      ...prev,
+      features: prev.features
+        .filter(feature => !(feature.properties && clippedRings.get(feature.properties.id) === null))
+        .map(feature => {
+          const clipped = feature.properties && clippedRings.get(feature.properties.id);
+          if (!clipped) return feature;
+
+          return addMeasurementsToFeature({
+            ...feature,
+            geometry: {
+              ...feature.geometry,
+              coordinates: clipped
+            }
+          } as PolygonFeature);
+        })
+    }));
+
+    if (removedNames.length > 0) {
+      Alert.alert(
+        'Paddocks Removed',
+        `${removedNames.join(', ')} ${removedNames.length === 1 ? 'was' : 'were'} entirely outside the farm and removed.`,
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  // Resolve a paddock flagged as outside its farm by clipping it to the farm boundary
+  const clipPaddockToItsFarm = (paddock: PolygonFeature) => {
+    const farm = getFarmBoundaries(completedPolygons).find(f => f.properties.id === paddock.properties.parentId);
+    if (!farm) return;
+
+    clipPaddocksToFarm([paddock], farm.geometry.coordinates);
+  };
+
+  // ...or by sliding it back inside, clear of its neighbours and setback zones
+  const movePaddockIntoItsFarm = (paddock: PolygonFeature) => {
+    const farmId = paddock.properties.parentId || '';
+    const farm = getFarmBoundaries(completedPolygons).find(f => f.properties.id === farmId);
+    if (!farm) return;
+
+    const obstacles = [
+      ...getPaddocksForFarm(completedPolygons, farmId).filter(other => other.properties.id !== paddock.properties.id),
+      ...getSetbackZonesForFarm(farmId)
+    ];
+    const movedRings = movePaddockIntoFarm(paddock.geometry.coordinates, farm.geometry.coordinates, obstacles);
+
+    if (!movedRings) {
+      Alert.alert(
+        'Cannot Move Paddock',
+        `There is no free space in the farm to move ${paddock.properties.name} into. Clip or delete it instead.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    updatePolygonRings(paddock.properties.id, movedRings);
+  };
+
+  const getSelectedFeature = () => completedPolygons.features.find(
+    feature => feature.properties && feature.properties.id === selectedPolygonId
+  ) as PolygonFeature | undefined;
+
+  // Check an edited outline of the selected polygon and apply it, or put the handles back
+  const applyVertexEdit = (selectedFeature: PolygonFeature, newRings: number[][][]) => {
+    if (!selectedPolygonId) return;
+
+    const resetVertexHandles = () => setVertexResetKey(key => key + 1);
+
+    if (!isValidPolygonRings(newRings)) {
+      Alert.alert(
+        'Invalid Shape',
+        'That change would make the boundary cross itself or push a hole outside the shape.',
+        [{ text: 'OK', onPress: resetVertexHandles }],
+        { cancelable: false }
+      );
+      return;
+    }
+
+    // A dragged paddock must stay inside its farm and not overlap its neighbouring paddocks
+    if (selectedFeature.properties.type === 'paddock') {
+      const parentFarm = completedPolygons.features.find(
+        feature => feature.properties && feature.properties.id === selectedFeature.properties.parentId
+      );
+      if (parentFarm && !isPaddockWithinFarm(newRings, parentFarm.geometry.coordinates)) {
+        Alert.alert(
+          'Invalid Paddock',
+          `${selectedFeature.properties.name} must stay completely within the farm boundary.`,
+          [{ text: 'OK', onPress: resetVertexHandles }],
+          { cancelable: false }
+        );
+        return;
+      }
+
+      const siblingPaddocks = getPaddocksForFarm(completedPolygons, selectedFeature.properties.parentId || '');
+      const overlappingPaddocks = findOverlappingPaddocks(newRings, siblingPaddocks, selectedPolygonId);
+
+      if (overlappingPaddocks.length > 0) {
+        const conflictNames = overlappingPaddocks.map(paddock => paddock.properties.name).join(', ');
+        const trimmedRings = trimPolygonToFreeArea(newRings, overlappingPaddocks);
+        const polygonId = selectedPolygonId;
+
+        Alert.alert(
+          'Paddock Overlap',
+          `${selectedFeature.properties.name} would overlap ${conflictNames}.`,
+          [
+            { text: 'Undo', style: 'cancel', onPress: resetVertexHandles },
+            ...(trimmedRings ? [{
+              text: 'Trim to Free Area',
+              onPress: () => {
+                updatePolygonRings(polygonId, trimmedRings);
+                resetVertexHandles();
+              }
+            }] : [])
+          ],
+          { cancelable: false }
+        );
+        return;
+      }
+    }
+
+    // Re-check the farm's paddocks against the edited boundary
+    if (selectedFeature.properties.type === 'farm') {
+      const paddocksOutside = getPaddocksForFarm(completedPolygons, selectedPolygonId)
+        .filter(paddock => !isPaddockWithinFarm(paddock.geometry.coordinates, newRings));
+
+      if (paddocksOutside.length > 0) {
+        const paddockNames = paddocksOutside.map(paddock => paddock.properties.name).join(', ');
+        const polygonId = selectedPolygonId;
+
+        Alert.alert(
+          'Paddocks Outside Farm',
+          `This change would leave ${paddockNames} outside the farm boundary. Keep them as they are (they will be flagged for review), or clip them to the new boundary?`,
+          [
+            { text: 'Undo', style: 'cancel', onPress: resetVertexHandles },
+            { text: 'Keep Change', style: 'destructive', onPress: () => updatePolygonRings(polygonId, newRings) },
+            {
+              text: 'Clip Paddocks',
+              onPress: () => {
+                updatePolygonRings(polygonId, newRings);
+                clipPaddocksToFarm(paddocksOutside, newRings);
+              }
+            }
+          ],
+          { cancelable: false }
+        );
+        return;
+      }
+    }
+
+    updatePolygonRings(selectedPolygonId, newRings);
+  };
+
+  // ringIndex 0 is the outer boundary, higher indices are holes
+  const onVertexDrag = (ringIndex: number, vertexIndex: number, draggedCoordinate: number[]) => {
+    const selectedFeature = getSelectedFeature();
+    if (!selectedFeature) return;
+
+    const newCoordinate = snapCoordinate(draggedCoordinate, selectedPolygonId || undefined);
+    const newRings = selectedFeature.geometry.coordinates.map(ring => [...ring]);
+    const newCoords = newRings[ringIndex];
+    newCoords[vertexIndex] = newCoordinate;
+    newCoords[newCoords.length - 1] = newCoords[0]; // Update closing point
+
+    applyVertexEdit(selectedFeature, newRings);
+  };
+
+  // Dragging an edge's midpoint handle inserts a new vertex there
+  const onMidpointDrag = (ringIndex: number, edgeIndex: number, draggedCoordinate: number[]) => {
+    const selectedFeature = getSelectedFeature();
+    if (!selectedFeature) return;
+
+    const newCoordinate = snapCoordinate(draggedCoordinate, selectedPolygonId || undefined);
+    const newRings = selectedFeature.geometry.coordinates.map((ring, index) =>
+      index === ringIndex ? insertRingVertex(ring, edgeIndex, newCoordinate) : ring
+    );
+
+    applyVertexEdit(selectedFeature, newRings);
+  };
+
+  const deleteVertex = (ringIndex: number, vertexIndex: number) => {
+    const selectedFeature = getSelectedFeature();
+    if (!selectedFeature) return;
+
+    const newRing = removeRingVertex(selectedFeature.geometry.coordinates[ringIndex], vertexIndex);
+    if (!newRing) {
+      Alert.alert(
+        'Cannot Delete Vertex',
+        `A ${ringIndex === 0 ? 'boundary' : 'hole'} needs at least 3 corners.`,
+        [{ text: 'OK', onPress: () => setVertexResetKey(key => key + 1) }],
+        { cancelable: false }
+      );
+      return;
+    }
+
+    applyVertexEdit(selectedFeature, selectedFeature.geometry.coordinates.map((ring, index) =>
+      index === ringIndex ? newRing : ring
+    ));
+  };
+
+  // Tapping a vertex handle only selects it, so a stray tap while dragging cannot remove a corner
+  const onVertexSelected = (ringIndex: number, vertexIndex: number) => {
+    setSelectedVertex({ ringIndex, vertexIndex });
+  };
+
+  const deleteSelectedVertex = () => {
+    if (!selectedVertex) return;
+    deleteVertex(selectedVertex.ringIndex, selectedVertex.vertexIndex);
+    setSelectedVertex(null);
+  };
+
   const onVertexDragStart = () => {
     HapticFeedback.pointSelected();
   };
 
-  const onDrawingPointDrag = (pointId: string, newCoordinate: number[]) => {
+  const onDrawingPointDrag = (pointId: string, draggedCoordinate: number[]) => {
+    const newCoordinate = snapCoordinate(draggedCoordinate);
+    recordHistory();
     setCurrentPolygon(prev => 
       prev.map(point => 
         point.id === pointId 
@@ -520,7 +2434,7 @@ const HomeScreen: React.FC = () => {
   // Create current drawing polygon for visualization
   const currentDrawingPolygon: PolygonCollection = {
     type: 'FeatureCollection',
-    features: currentPolygon.length > 0 ? [{
+    features: currentPolygon.length > 0 && !isDrawingLine ? [{
       type: 'Feature',
       properties: { 
         isDrawing: true,
@@ -536,10 +2450,190 @@ const HomeScreen: React.FC = () => {
     }] : []
   };
 
-  const selectedPolygonVertices = getPolygonVertices(completedPolygons, selectedPolygonId || '');
-
-  // Prepare polygons with initials for map display
-  const polygonsWithInitials = addInitialsToPolygons(completedPolygons);
+  // Cut lines and fences are drawn open rather than as a polygon
+  const currentDrawingLine: LineCollection = {
+    type: 'FeatureCollection',
+    features: currentPolygon.length > 1 && isDrawingLine ? [{
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'LineString',
+        coordinates: currentPolygon.map(point => point.coordinates)
+      }
+    }] : []
+  };
+
+  // Simplified outline of the selected polygon, previewed before it is applied
+  const simplifyTarget = appState === 'simplifying'
+    ? completedPolygons.features.find(
+      feature => feature.properties && feature.properties.id === selectedPolygonId
+    ) as PolygonFeature | undefined
+    : undefined;
+  const simplificationPreview: SimplificationPreview | null = simplifyTarget && simplifiedRings ? {
+    vertexCountBefore: countPolygonVertices(simplifyTarget.geometry.coordinates),
+    vertexCountAfter: countPolygonVertices(simplifiedRings),
+    areaBefore: calculatePolygonRingsArea(simplifyTarget.geometry.coordinates),
+    areaAfter: calculatePolygonRingsArea(simplifiedRings)
+  } : null;
+  const simplifyPreviewPolygon: PolygonCollection = {
+    type: 'FeatureCollection',
+    features: simplifyTarget && simplifiedRings ? [{
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'Polygon',
+        coordinates: simplifiedRings
+      }
+    }] : []
+  };
+
+  // Setback zone for the selected polygon, previewed before it is applied
+  const setbackPreview: PolygonCollection = {
+    type: 'FeatureCollection',
+    features: setbackPreviewPolygons.map(rings => ({
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'Polygon',
+        coordinates: rings
+      }
+    }))
+  };
+
+  // Temporary measurement: its outline, and points for vertices and segment length labels
+  const isMeasuringArea = measurementShape === 'area' && measurePoints.length >= 3;
+  const measureRing = isMeasuringArea ? [...measurePoints, measurePoints[0]] : measurePoints;
+  const measurementArea: PolygonCollection = {
+    type: 'FeatureCollection',
+    features: appState === 'measuring' && isMeasuringArea ? [{
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'Polygon',
+        coordinates: [measureRing]
+      }
+    }] : []
+  };
+  const measurementLine: LineCollection = {
+    type: 'FeatureCollection',
+    features: appState === 'measuring' && measurePoints.length > 1 ? [{
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'LineString',
+        coordinates: measureRing
+      }
+    }] : []
+  };
+  const measurementPoints: PointCollection = {
+    type: 'FeatureCollection',
+    features: appState === 'measuring' ? [
+      ...measurePoints.map(coordinates => ({
+        type: 'Feature' as const,
+        properties: { kind: 'vertex' },
+        geometry: { type: 'Point' as const, coordinates }
+      })),
+      ...measureRing.slice(1).map((point, index) => ({
+        type: 'Feature' as const,
+        properties: {
+          kind: 'segment',
+          label: formatDistance(calculateGeodesicDistance(measureRing[index], point))
+        },
+        geometry: {
+          type: 'Point' as const,
+          coordinates: [(measureRing[index][0] + point[0]) / 2, (measureRing[index][1] + point[1]) / 2]
+        }
+      }))
+    ] : []
+  };
+
+  // Paddocks an auto-subdivision would create, numbered in the order they will be named
+  const subdivisionPreviewPolygons: PolygonCollection = {
+    type: 'FeatureCollection',
+    features: subdivisionPreview.map((rings, index) => ({
+      type: 'Feature',
+      properties: { label: `${index + 1}` },
+      geometry: {
+        type: 'Polygon',
+        coordinates: rings
+      }
+    }))
+  };
+
+  // Pieces of a paddock being split, highlighting the one currently being named
+  const splitPreviewPolygons: PolygonCollection = {
+    type: 'FeatureCollection',
+    features: pendingSplit ? pendingSplit.polygons.map((rings, index) => ({
+      type: 'Feature',
+      properties: { isNaming: index === pendingSplit.pieceInfos.length },
+      geometry: {
+        type: 'Polygon',
+        coordinates: rings
+      }
+    })) : []
+  };
+
+  // Highlight edges of the current drawing that cross each other
+  const currentDrawingCoords = currentPolygon.map(point => point.coordinates);
+  const drawingIntersections = isDrawing && !isDrawingLine && currentPolygon.length > 3
+    ? findSelfIntersections(currentDrawingCoords)
+    : [];
+  const selfIntersectionSegments = createSelfIntersectionGeoJSON(currentDrawingCoords, drawingIntersections);
+  const selfIntersectionPoints: PointCollection = {
+    type: 'FeatureCollection',
+    features: drawingIntersections.map((intersection, index) => ({
+      type: 'Feature',
+      properties: { index },
+      geometry: {
+        type: 'Point',
+        coordinates: intersection.point
+      }
+    }))
+  };
+
+  // Where the last drawing point or vertex was snapped to, while still drawing or editing
+  const snapIndicatorPoints: PointCollection = {
+    type: 'FeatureCollection',
+    features: snapIndicator && (isDrawing || appState === 'editing' || appState === 'measuring') ? [{
+      type: 'Feature',
+      properties: { snapType: snapIndicator.type },
+      geometry: {
+        type: 'Point',
+        coordinates: snapIndicator.coordinates
+      }
+    }] : []
+  };
+
+  // Shapes that will be saved from the paddock info modal
+  const editingPaddock = completedPolygons.features.find(
+    feature => editingPaddockId && feature.properties && feature.properties.id === editingPaddockId
+  );
+  const paddockPreviewPolygons = editingPaddock
+    ? [editingPaddock.geometry.coordinates]
+    : pendingSplit
+    ? [pendingSplit.polygons[pendingSplit.pieceInfos.length]]
+    : pendingMerge ? [pendingMerge.rings]
+    : pendingPaddockPolygons || (currentPolygon.length >= 3 ? [getDrawingPaddockRings()] : [[currentDrawingCoords]]);
+
+  // Shapes described by the farm info modal
+  const farmModalPolygons = pendingFarmPolygons || getFarmBoundaries(completedPolygons)
+    .filter(farm => farm.properties.id === editingFarmId)
+    .map(farm => farm.geometry.coordinates);
+
+  // Vertex handles are only shown while editing, not while drawing a hole
+  const selectedPolygonVertices = appState === 'editing'
+    ? getPolygonVertices(completedPolygons, selectedPolygonId || '')
+    : [];
+  const selectedPolygonHoleVertices = appState === 'editing'
+    ? getPolygonHoleVertices(completedPolygons, selectedPolygonId || '')
+    : [];
+  const selectedPolygon = appState === 'editing' ? getSelectedFeature() : undefined;
+  const selectedPolygonMidpoints = selectedPolygon
+    ? selectedPolygon.geometry.coordinates.map(ring => getRingMidpoints(ring))
+    : [];
+
+  // Prepare polygons with initials and area labels for map display
+  const polygonsWithInitials = addAreaLabelsToPolygons(addInitialsToPolygons(completedPolygons));
 
   // Create livestock data for SymbolLayer
   const livestockPointsGeoJSON: PointCollection = {
@@ -577,11 +2671,50 @@ const HomeScreen: React.FC = () => {
   // Create heatmap data for visualization
   const heatmapGeoJSON = createHeatmapGeoJSON(heatmapData);
 
+  // Infrastructure of the selected farm, with its icon and status colour
+  const infrastructurePointsGeoJSON: PointCollection = {
+    type: 'FeatureCollection',
+    features: infrastructure.features
+      .filter(feature => !selectedFarmId || feature.properties.farmId === selectedFarmId)
+      .map(feature => ({
+        ...feature,
+        properties: {
+          ...feature.properties,
+          iconImage: `infrastructure-${feature.properties.type}`,
+          statusColor: INFRASTRUCTURE_STATUSES.find(option => option.status === feature.properties.status)?.color
+        }
+      }))
+  };
+
+  // Fences of the selected farm, coloured by condition
+  const fenceLinesGeoJSON: LineCollection = {
+    type: 'FeatureCollection',
+    features: fences.features
+      .filter(feature => !selectedFarmId || feature.properties.farmId === selectedFarmId)
+      .map(feature => ({
+        ...feature,
+        properties: {
+          ...feature.properties,
+          label: `${feature.properties.name} · ${formatDistance(calculateLineLength(feature.geometry.coordinates))}`,
+          conditionColor: FENCE_CONDITIONS.find(option => option.condition === feature.properties.condition)?.color
+        }
+      }))
+  };
+  const editingFence = editingFenceId
+    ? fences.features.find(feature => feature.properties.id === editingFenceId)
+    : undefined;
+  const selectedFarm = getFarmBoundaries(completedPolygons).find(farm => farm.properties.id === selectedFarmId);
+
+  const infrastructureModalPoint = editingInfrastructureId
+    ? infrastructure.features.find(feature => feature.properties.id === editingInfrastructureId)?.geometry.coordinates
+    : pendingInfrastructurePoint;
+
   return (
     <SafeAreaView style={styles.container}>
       <ControlPanel
         appState={appState}
         currentPolygonLength={currentPolygon.length}
+        currentPolygonCoordinates={currentPolygon.map(point => point.coordinates)}
         completedPolygons={completedPolygons}
         selectedFarmId={selectedFarmId}
         selectedPolygonId={selectedPolygonId}
@@ -589,33 +2722,179 @@ const HomeScreen: React.FC = () => {
         onStartDrawingPaddock={startDrawingPaddock}
         onCompleteFarm={completeFarm}
         onCompletePaddock={completePaddock}
+        onStartDrawingHole={startDrawingHole}
+        onCompleteHole={completeHole}
+        onStartSplitting={startSplitting}
+        onCompleteSplit={completeSplit}
+        onCompleteFence={completeFence}
+        mergeSelectionCount={mergeSelectionIds.length}
+        onStartMerging={startMerging}
+        onCompleteMerge={completeMerge}
+        simplifyTolerance={simplifyTolerance}
+        simplificationPreview={simplificationPreview}
+        onStartSimplifying={startSimplifying}
+        onSimplifyToleranceChange={setSimplifyTolerance}
+        onApplySimplification={applySimplification}
+        setbackDistance={setbackDistance}
+        setbackPreviewArea={appState === 'setback' ? calculateMultiPolygonArea(setbackPreviewPolygons) : null}
+        hasSetbackZone={setbackZones.features.some(zone => zone.properties?.sourceId === selectedPolygonId)}
+        onStartSetback={startSetback}
+        onSetbackDistanceChange={setSetbackDistance}
+        onApplySetback={applySetback}
+        onRemoveSetback={removeSetback}
+        subdivideCount={subdivideCount}
+        subdivideLayout={subdivideLayout}
+        subdivideBearing={subdivideBearing}
+        subdivisionPieceCount={subdivisionPreview.length}
+        subdivisionPieceArea={subdivisionPreview.length > 0 ? calculateMultiPolygonArea(subdivisionPreview) / subdivideCount : 0}
+        onStartSubdividing={startSubdividing}
+        onSubdivideCountChange={setSubdivideCount}
+        onSubdivideLayoutChange={setSubdivideLayout}
+        onSubdivideBearingChange={setSubdivideBearing}
+        onApplySubdivision={applySubdivision}
+        measurePoints={measurePoints}
+        measurementShape={measurementShape}
+        onStartMeasuring={startMeasuring}
+        onMeasurementShapeChange={setMeasurementShape}
+        onUndoMeasurePoint={() => setMeasurePoints(prev => prev.slice(0, -1))}
+        onClearMeasurement={() => setMeasurePoints([])}
+        onStopMeasuring={stopMeasuring}
+        canUndo={history.undo.length > 0}
+        canRedo={history.redo.length > 0}
+        hasSelectedVertex={selectedVertex !== null}
+        onDeleteSelectedVertex={deleteSelectedVertex}
+        onUndo={undo}
+        onRedo={redo}
+        onEditFarmInfo={() => selectedPolygonId && openEditFarmInfoModal(selectedPolygonId)}
+        onEditPaddockInfo={() => selectedPolygonId && openEditPaddockInfoModal(selectedPolygonId)}
+        outOfBoundsPaddocks={outOfBoundsPaddocks}
+        onClipPaddock={clipPaddockToItsFarm}
+        onMovePaddock={movePaddockIntoItsFarm}
+        onDeletePaddock={paddock => deletePaddock(paddock.properties.id)}
         onEnterEditMode={enterEditMode}
         onExitEditMode={exitEditMode}
         onCancelDrawing={cancelDrawing}
         onClearAll={clearAll}
+        onImportExport={openImportExportModal}
+        isSnappingEnabled={isSnappingEnabled}
+        onToggleSnapping={toggleSnapping}
+      />
+
+      <FarmInfoModal
+        visible={showFarmModal}
+        title={editingFarmId ? 'Edit Farm' : undefined}
+        farmInfo={farmInfo}
+        area={farmModalPolygons.reduce((total, rings) => total + calculatePolygonRingsArea(rings), 0)}
+        perimeter={farmModalPolygons.reduce((total, rings) => total + calculatePolygonRingsPerimeter(rings), 0)}
+        onFarmInfoChange={setFarmInfo}
+        onSave={handleSaveFarm}
+        onCancel={handleCancelFarm}
       />
 
       <PaddockInfoModal
         visible={showPaddockModal}
+        title={editingPaddockId ? 'Edit Paddock' : pendingSplit
+          ? `Split Piece ${pendingSplit.pieceInfos.length + 1} of ${pendingSplit.polygons.length}`
+          : pendingMerge ? 'Merged Paddock' : undefined}
         paddockInfo={paddockInfo}
+        area={paddockPreviewPolygons.reduce((total, rings) => total + calculatePolygonRingsArea(rings), 0)}
+        perimeter={paddockPreviewPolygons.reduce((total, rings) => total + calculatePolygonRingsPerimeter(rings), 0)}
         onPaddockInfoChange={setPaddockInfo}
         onSave={handleSavePaddock}
         onCancel={handleCancelPaddock}
+        onDelete={editingPaddockId ? () => deletePaddock(editingPaddockId) : undefined}
+      />
+
+      <InfrastructureInfoModal
+        visible={showInfrastructureModal}
+        title={editingInfrastructureId ? 'Edit Infrastructure' : undefined}
+        infrastructureInfo={infrastructureInfo}
+        location={infrastructureModalPoint ? getInfrastructureLocation(infrastructureModalPoint) : undefined}
+        onInfrastructureInfoChange={setInfrastructureInfo}
+        onSave={handleSaveInfrastructure}
+        onCancel={handleCancelInfrastructure}
+        onDelete={editingInfrastructureId ? () => deleteInfrastructure(editingInfrastructureId) : undefined}
+      />
+
+      <FenceInfoModal
+        visible={showFenceModal}
+        title={editingFenceId ? 'Edit Fence' : undefined}
+        fenceInfo={fenceInfo}
+        length={editingFence
+          ? calculateLineLength(editingFence.geometry.coordinates)
+          : pendingFenceLine ? calculateLineLength(pendingFenceLine) : undefined}
+        onFenceInfoChange={setFenceInfo}
+        onSave={handleSaveFence}
+        onCancel={handleCancelFence}
+        onDelete={editingFenceId ? () => deleteFence(editingFenceId) : undefined}
+      />
+
+      <ImportExportModal
+        visible={showImportExportModal}
+        farmName={selectedFarm?.properties.name}
+        exportFormat={exportFormat}
+        importText={importText}
+        importPreview={importPreview}
+        onExportFormatChange={setExportFormat}
+        onImportTextChange={setImportText}
+        onExport={handleExport}
+        onChooseImportFile={handleChooseImportFile}
+        onCheckImport={handleCheckImport}
+        onConfirmImport={handleConfirmImport}
+        onClearPreview={() => setImportPreview(null)}
+        onCancel={closeImportExportModal}
       />
 
       {/* Floating Bottom Menu */}
       <FloatingBottomMenu
-        visible={appState === 'paddock-mode' || appState === 'livestock-mode' || appState === 'heatmap-mode'}
+        visible={isMenuMode}
         activeMode={bottomMenuMode}
         onModeSelect={handleBottomMenuSelect}
       />
 
+      {/* Farm Switcher */}
+      <FarmSwitcher
+        visible={isMenuMode}
+        farms={getFarmBoundaries(completedPolygons)}
+        selectedFarmId={selectedFarmId}
+        onSelectFarm={setSelectedFarmId}
+        onEditFarm={openEditFarmInfoModal}
+        onAddFarm={startDrawingFarm}
+        onImportExport={openImportExportModal}
+      />
+
       {/* Add Paddock Button */}
       <AddPaddockButton
         visible={appState === 'paddock-mode'}
         onPress={handleAddPaddock}
       />
 
+      {/* Add Fence Button */}
+      <AddFenceButton
+        visible={appState === 'fence-mode'}
+        onPress={startDrawingFence}
+      />
+
+      {/* Fence Length Summary */}
+      <FenceSummary
+        visible={appState === 'fence-mode'}
+        farmName={selectedFarm?.properties.name}
+        summary={summarizeFenceLengths(fences, selectedFarmId || undefined)}
+      />
+
+      {/* Measure Button */}
+      <MeasureButton
+        visible={isMenuMode}
+        onPress={startMeasuring}
+      />
+
+      {/* Infrastructure Type Picker */}
+      <InfrastructurePicker
+        visible={appState === 'infrastructure-mode'}
+        selectedType={placementType}
+        onSelectType={setPlacementType}
+      />
+
       {/* Heatmap Legend */}
       <HeatmapLegend
         visible={appState === 'heatmap-mode'}
@@ -627,8 +2906,10 @@ const HomeScreen: React.FC = () => {
           style={styles.map}
           styleURL={MAP_CONFIG.STYLE_URL}
           onPress={onMapPress}
+          onMapIdle={(state) => setMapZoom(state.properties.zoom)}
         >
           <MapboxGL.Camera
+            ref={cameraRef}
             zoomLevel={MAP_CONFIG.ZOOM_LEVEL}
             centerCoordinate={MAP_CONFIG.CENTER_COORDINATE}
           />
@@ -641,6 +2922,8 @@ const HomeScreen: React.FC = () => {
                 style={{
                   fillColor: [
                     'case',
+                    ['in', ['get', 'id'], ['literal', mergeSelectionIds]],
+                    COLORS.SELECTED,
                     ['==', ['get', 'id'], selectedPolygonId || ''],
                     COLORS.SELECTED,
                     ['==', ['get', 'id'], selectedFarmId || ''],
@@ -662,6 +2945,8 @@ const HomeScreen: React.FC = () => {
                 style={{
                   lineColor: [
                     'case',
+                    ['in', ['get', 'id'], ['literal', mergeSelectionIds]],
+                    COLORS.SELECTED,
                     ['==', ['get', 'id'], selectedPolygonId || ''],
                     COLORS.SELECTED,
                     ['==', ['get', 'id'], selectedFarmId || ''],
@@ -682,17 +2967,48 @@ const HomeScreen: React.FC = () => {
             </ShapeSource>
           )}
 
+          {/* Paddocks Outside Their Farm */}
+          {outOfBoundsPaddocks.length > 0 && (
+            <ShapeSource id="outOfBoundsPaddocks" shape={{ type: 'FeatureCollection', features: outOfBoundsPaddocks }}>
+              <FillLayer
+                id="outOfBoundsPaddocksFill"
+                style={{
+                  fillColor: COLORS.OUT_OF_BOUNDS,
+                  fillOpacity: 0.35
+                }}
+              />
+              <LineLayer
+                id="outOfBoundsPaddocksLine"
+                style={{
+                  lineColor: COLORS.OUT_OF_BOUNDS,
+                  lineWidth: 3,
+                  lineDasharray: [2, 2]
+                }}
+              />
+            </ShapeSource>
+          )}
+
           {/* Paddock Name Text */}
           {completedPolygons.features.length > 0 && (
-            <ShapeSource id="paddockLabels" shape={polygonsWithInitials}>
+            <ShapeSource id="paddockLabels" shape={polygonLabelPoints}>
               <SymbolLayer
                 id="paddockNameText"
                 style={{
                   textField: [
                     'case',
                     ['==', ['get', 'type'], 'paddock'],
-                    ['get', 'initials'],
-                    ''
+                    [
+                      'format',
+                      ['get', 'initials'], {},
+                      '\n', {},
+                      ['get', 'areaLabel'], { 'font-scale': 0.75 }
+                    ],
+                    [
+                      'format',
+                      ['get', 'name'], {},
+                      '\n', {},
+                      ['get', 'areaLabel'], { 'font-scale': 0.75 }
+                    ]
                   ],
                   textSize: 16,
                   textColor: COLORS.PRIMARY_TEXT,
@@ -715,7 +3031,7 @@ const HomeScreen: React.FC = () => {
                 id="currentDrawingPointsLayer"
                 style={{
                   circleRadius: 9,
-                  circleColor: drawingMode === 'farm' ? COLORS.FARM_BOUNDARY : COLORS.PADDOCK,
+                  circleColor: drawingColor,
                   circleStrokeColor: COLORS.WHITE,
                   circleStrokeWidth: 2
                 }}
@@ -726,24 +3042,69 @@ const HomeScreen: React.FC = () => {
           {/* Draggable Vertex Points for Selected Polygon (Edit Mode) */}
           {selectedPolygonVertices.map((coordinate, index) => (
             <PointAnnotation
-              key={`vertex-${selectedPolygonId}-${index}`}
+              key={`vertex-${selectedPolygonId}-${index}-${vertexResetKey}`}
               id={`vertex-${selectedPolygonId}-${index}`}
               coordinate={coordinate}
               draggable={true}
               onDragStart={onVertexDragStart}
+              onSelected={() => onVertexSelected(0, index)}
               onDragEnd={(feature) => {
                 const newCoordinate = feature.geometry.coordinates;
-                onVertexDrag(index, newCoordinate);
+                onVertexDrag(0, index, newCoordinate);
               }}
             >
-              <View style={styles.vertexHandle}>
+              <View style={[
+                styles.vertexHandle,
+                selectedVertex?.ringIndex === 0 && selectedVertex.vertexIndex === index && styles.selectedVertexHandle
+              ]}>
                 <View style={styles.vertexHandleInner} />
               </View>
             </PointAnnotation>
           ))}
 
+          {/* Draggable Hole Vertex Points for Selected Polygon (Edit Mode) */}
+          {selectedPolygonHoleVertices.map((holeVertices, holeIndex) => holeVertices.map((coordinate, index) => (
+            <PointAnnotation
+              key={`hole-vertex-${selectedPolygonId}-${holeIndex}-${index}-${vertexResetKey}`}
+              id={`hole-vertex-${selectedPolygonId}-${holeIndex}-${index}`}
+              coordinate={coordinate}
+              draggable={true}
+              onDragStart={onVertexDragStart}
+              onSelected={() => onVertexSelected(holeIndex + 1, index)}
+              onDragEnd={(feature) => {
+                const newCoordinate = feature.geometry.coordinates;
+                onVertexDrag(holeIndex + 1, index, newCoordinate);
+              }}
+            >
+              <View style={[
+                styles.vertexHandle,
+                styles.holeVertexHandle,
+                selectedVertex?.ringIndex === holeIndex + 1 && selectedVertex.vertexIndex === index && styles.selectedVertexHandle
+              ]}>
+                <View style={styles.vertexHandleInner} />
+              </View>
+            </PointAnnotation>
+          )))}
+
+          {/* Edge Midpoints - drag one to insert a new vertex */}
+          {selectedPolygonMidpoints.map((midpoints, ringIndex) => midpoints.map((coordinate, edgeIndex) => (
+            <PointAnnotation
+              key={`midpoint-${selectedPolygonId}-${ringIndex}-${edgeIndex}-${vertexResetKey}`}
+              id={`midpoint-${selectedPolygonId}-${ringIndex}-${edgeIndex}`}
+              coordinate={coordinate}
+              draggable={true}
+              onDragStart={onVertexDragStart}
+              onDragEnd={(feature) => {
+                const newCoordinate = feature.geometry.coordinates;
+                onMidpointDrag(ringIndex, edgeIndex, newCoordinate);
+              }}
+            >
+              <View style={[styles.midpointHandle, ringIndex > 0 && styles.holeVertexHandle]} />
+            </PointAnnotation>
+          )))}
+
           {/* Draggable Points for Current Drawing */}
-          {(appState === 'drawing-farm' || appState === 'drawing-paddock') && currentPolygon.map((point) => (
+          {isDrawing && currentPolygon.map((point) => (
             <PointAnnotation
               key={point.id}
               id={point.id}
@@ -757,7 +3118,7 @@ const HomeScreen: React.FC = () => {
             >
               <View style={[
                 styles.drawingPointDragHandle,
-                { backgroundColor: drawingMode === 'farm' ? `${COLORS.FARM_BOUNDARY}CC` : `${COLORS.PADDOCK}CC` }
+                { backgroundColor: `${drawingColor}CC` }
               ]}>
                 <View style={styles.drawingPointDragInner} />
               </View>
@@ -770,14 +3131,14 @@ const HomeScreen: React.FC = () => {
               <FillLayer
                 id="currentDrawingFill"
                 style={{
-                  fillColor: drawingMode === 'farm' ? COLORS.FARM_BOUNDARY : COLORS.PADDOCK,
+                  fillColor: drawingColor,
                   fillOpacity: 0.2
                 }}
               />
               <LineLayer
                 id="currentDrawingLine"
                 style={{
-                  lineColor: drawingMode === 'farm' ? COLORS.FARM_BOUNDARY : COLORS.PADDOCK,
+                  lineColor: drawingColor,
                   lineWidth: 2,
                   lineOpacity: 0.9,
                   lineDasharray: [2, 2]
@@ -786,6 +3147,258 @@ const HomeScreen: React.FC = () => {
             </ShapeSource>
           )}
 
+          {/* Fences */}
+          {(appState === 'fence-mode' || appState === 'drawing-fence') && fenceLinesGeoJSON.features.length > 0 && (
+            <ShapeSource
+              id="fenceLines"
+              shape={fenceLinesGeoJSON}
+              // Only while browsing, so taps near a fence still add points when drawing
+              onPress={appState === 'fence-mode' ? (event) => {
+                const tappedId = event.features[0]?.properties?.id;
+                if (tappedId) {
+                  openEditFenceModal(tappedId);
+                }
+              } : undefined}
+            >
+              <LineLayer
+                id="fenceLinesLayer"
+                style={{
+                  lineColor: ['get', 'conditionColor'],
+                  lineWidth: 4,
+                  lineCap: 'round',
+                  lineJoin: 'round'
+                }}
+              />
+              {/* Electric fences get a dashed stripe */}
+              <LineLayer
+                id="electricFenceLinesLayer"
+                filter={['==', ['get', 'electric'], true]}
+                style={{
+                  lineColor: COLORS.ELECTRIC_FENCE,
+                  lineWidth: 2,
+                  lineDasharray: [2, 2]
+                }}
+              />
+              <SymbolLayer
+                id="fenceLabels"
+                style={{
+                  textField: ['get', 'label'],
+                  textSize: 11,
+                  textColor: '#FFFFFF',
+                  textHaloColor: '#000000',
+                  textHaloWidth: 1,
+                  symbolPlacement: 'line',
+                  textOffset: [0, -1]
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Current Cut Line or Fence */}
+          {currentDrawingLine.features.length > 0 && (
+            <ShapeSource id="currentOpenLine" shape={currentDrawingLine}>
+              <LineLayer
+                id="currentOpenLineLayer"
+                style={{
+                  lineColor: drawingColor,
+                  lineWidth: 3,
+                  lineDasharray: [2, 1]
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Setback Zones */}
+          {setbackZones.features.length > 0 && (
+            <ShapeSource id="setbackZones" shape={setbackZones}>
+              <FillLayer
+                id="setbackZonesFill"
+                style={{
+                  fillColor: COLORS.SETBACK,
+                  fillOpacity: 0.25
+                }}
+              />
+              <LineLayer
+                id="setbackZonesLine"
+                style={{
+                  lineColor: COLORS.SETBACK,
+                  lineWidth: 1,
+                  lineDasharray: [3, 2]
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Setback Zone Preview */}
+          {setbackPreview.features.length > 0 && (
+            <ShapeSource id="setbackPreview" shape={setbackPreview}>
+              <FillLayer
+                id="setbackPreviewFill"
+                style={{
+                  fillColor: COLORS.SETBACK,
+                  fillOpacity: 0.5
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Simplification Preview */}
+          {simplifyPreviewPolygon.features.length > 0 && (
+            <ShapeSource id="simplifyPreview" shape={simplifyPreviewPolygon}>
+              <LineLayer
+                id="simplifyPreviewLine"
+                style={{
+                  lineColor: COLORS.WHITE,
+                  lineWidth: 2,
+                  lineDasharray: [2, 2]
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Subdivision Preview */}
+          {subdivisionPreviewPolygons.features.length > 0 && (
+            <ShapeSource id="subdivisionPreview" shape={subdivisionPreviewPolygons}>
+              <FillLayer
+                id="subdivisionPreviewFill"
+                style={{
+                  fillColor: COLORS.PADDOCK,
+                  fillOpacity: 0.3
+                }}
+              />
+              <LineLayer
+                id="subdivisionPreviewLine"
+                style={{
+                  lineColor: COLORS.WHITE,
+                  lineWidth: 2,
+                  lineDasharray: [2, 2]
+                }}
+              />
+              <SymbolLayer
+                id="subdivisionPreviewLabels"
+                style={{
+                  textField: ['get', 'label'],
+                  textSize: 14,
+                  textColor: COLORS.PRIMARY_TEXT,
+                  textHaloColor: COLORS.WHITE,
+                  textHaloWidth: 2
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Split Preview */}
+          {splitPreviewPolygons.features.length > 0 && (
+            <ShapeSource id="splitPreview" shape={splitPreviewPolygons}>
+              <FillLayer
+                id="splitPreviewFill"
+                style={{
+                  fillColor: ['case', ['get', 'isNaming'], COLORS.SELECTED, COLORS.PADDOCK],
+                  fillOpacity: 0.4
+                }}
+              />
+              <LineLayer
+                id="splitPreviewLine"
+                style={{
+                  lineColor: COLORS.WHITE,
+                  lineWidth: 2
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Self-Intersecting Edges of Current Drawing */}
+          {selfIntersectionSegments.features.length > 0 && (
+            <ShapeSource id="selfIntersectionSegments" shape={selfIntersectionSegments}>
+              <LineLayer
+                id="selfIntersectionSegmentsLine"
+                style={{
+                  lineColor: COLORS.ERROR,
+                  lineWidth: 4,
+                  lineOpacity: 0.9
+                }}
+              />
+            </ShapeSource>
+          )}
+          {selfIntersectionPoints.features.length > 0 && (
+            <ShapeSource id="selfIntersectionPoints" shape={selfIntersectionPoints}>
+              <CircleLayer
+                id="selfIntersectionPointsLayer"
+                style={{
+                  circleRadius: 6,
+                  circleColor: COLORS.ERROR,
+                  circleStrokeColor: COLORS.WHITE,
+                  circleStrokeWidth: 2
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Measurement */}
+          {measurementArea.features.length > 0 && (
+            <ShapeSource id="measurementArea" shape={measurementArea}>
+              <FillLayer
+                id="measurementAreaFill"
+                style={{
+                  fillColor: COLORS.MEASUREMENT,
+                  fillOpacity: 0.25
+                }}
+              />
+            </ShapeSource>
+          )}
+          {measurementLine.features.length > 0 && (
+            <ShapeSource id="measurementLine" shape={measurementLine}>
+              <LineLayer
+                id="measurementLineLayer"
+                style={{
+                  lineColor: COLORS.MEASUREMENT,
+                  lineWidth: 3,
+                  lineDasharray: [2, 1]
+                }}
+              />
+            </ShapeSource>
+          )}
+          {measurementPoints.features.length > 0 && (
+            <ShapeSource id="measurementPoints" shape={measurementPoints}>
+              <CircleLayer
+                id="measurementVertices"
+                filter={['==', ['get', 'kind'], 'vertex']}
+                style={{
+                  circleRadius: 5,
+                  circleColor: COLORS.MEASUREMENT,
+                  circleStrokeColor: COLORS.WHITE,
+                  circleStrokeWidth: 2
+                }}
+              />
+              <SymbolLayer
+                id="measurementSegmentLabels"
+                filter={['==', ['get', 'kind'], 'segment']}
+                style={{
+                  textField: ['get', 'label'],
+                  textSize: 12,
+                  textColor: COLORS.PRIMARY_TEXT,
+                  textHaloColor: COLORS.WHITE,
+                  textHaloWidth: 2
+                }}
+              />
+            </ShapeSource>
+          )}
+
+          {/* Snap Indicator */}
+          {snapIndicatorPoints.features.length > 0 && (
+            <ShapeSource id="snapIndicator" shape={snapIndicatorPoints}>
+              <CircleLayer
+                id="snapIndicatorLayer"
+                style={{
+                  circleRadius: ['match', ['get', 'snapType'], 'vertex', 10, 8],
+                  circleOpacity: 0,
+                  circleStrokeColor: COLORS.SNAP_INDICATOR,
+                  circleStrokeWidth: 3
+                }}
+              />
+            </ShapeSource>
+          )}
+
           {/* Heatmap Visualization */}
           {appState === 'heatmap-mode' && heatmapGeoJSON.features.length > 0 && (
             <>
@@ -978,6 +3591,72 @@ const HomeScreen: React.FC = () => {
               </ShapeSource>
             </>
           )}
+
+          {/* Infrastructure Points */}
+          {appState === 'infrastructure-mode' && infrastructurePointsGeoJSON.features.length > 0 && (
+            <>
+              <MapboxGL.Images
+                images={{
+                  'infrastructure-trough': require('../assets/icons/trough.png'),
+                  'infrastructure-gate': require('../assets/icons/gate.png'),
+                  'infrastructure-dam': require('../assets/icons/dam.png'),
+                  'infrastructure-shed': require('../assets/icons/shed.png'),
+                  'infrastructure-tank': require('../assets/icons/tank.png'),
+                  'infrastructure-yard': require('../assets/icons/yard.png'),
+                }}
+                onImageMissing={(imageKey) => {
+                  console.log('Missing image:', imageKey);
+                  return false;
+                }}
+              />
+
+              {/* Tapping a point opens its details instead of placing a new one */}
+              <ShapeSource
+                id="infrastructurePoints"
+                shape={infrastructurePointsGeoJSON}
+                onPress={(event) => {
+                  const tappedId = event.features[0]?.properties?.id;
+                  if (tappedId) {
+                    openEditInfrastructureModal(tappedId);
+                  }
+                }}
+              >
+                <CircleLayer
+                  id="infrastructureCircles"
+                  style={{
+                    circleRadius: 16,
+                    circleColor: ['get', 'statusColor'],
+                    circleStrokeColor: '#FFFFFF',
+                    circleStrokeWidth: 2,
+                    circleOpacity: 0.9,
+                  }}
+                />
+                <SymbolLayer
+                  id="infrastructureIcons"
+                  style={{
+                    iconImage: ['get', 'iconImage'],
+                    iconSize: 0.08,
+                    iconAllowOverlap: true,
+                    iconIgnorePlacement: true,
+                  }}
+                />
+                <SymbolLayer
+                  id="infrastructureNames"
+                  style={{
+                    textField: ['get', 'name'],
+                    textSize: 11,
+                    textColor: '#FFFFFF',
+                    textHaloColor: '#000000',
+                    textHaloWidth: 1,
+                    textFont: ['Open Sans Bold', 'Arial Unicode MS Bold'],
+                    textOffset: [0, 2],
+                    textAnchor: 'top',
+                    textAllowOverlap: true,
+                  }}
+                />
+              </ShapeSource>
+            </>
+          )}
         </MapView>
       </View>
     </SafeAreaView>
@@ -1010,6 +3689,22 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  holeVertexHandle: {
+    backgroundColor: COLORS.HOLE,
+  },
+  selectedVertexHandle: {
+    borderColor: COLORS.SELECTED,
+    borderWidth: 4,
+  },
+  midpointHandle: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: COLORS.VERTEX_HANDLE,
+    borderWidth: 2,
+    borderColor: COLORS.WHITE,
+    opacity: 0.7,
+  },
   vertexHandleInner: {
     width: 8,
     height: 8,
@@ -0,0 +1,243 @@
+import type { Geometry, Position } from 'geojson';
+import {
+  PolygonCollection,
+  FarmData,
+  ImportFeature,
+  ImportResult
+} from './types';
+import { buildImportedFarmData, createFarmDataCollection } from './importExport';
+
+const GEOMETRY_TYPES = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+// Coordinate reference systems that mean plain WGS 84 longitude/latitude
+const WGS84_CRS_NAMES = ['urn:ogc:def:crs:OGC:1.3:CRS84', 'urn:ogc:def:crs:EPSG::4326', 'EPSG:4326'];
+
+type JSONObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JSONObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length >= 2 && value.every(number => typeof number === 'number' && isFinite(number));
+
+const isPositionList = (value: unknown, minLength: number): value is number[][] =>
+  Array.isArray(value) && value.length >= minLength && value.every(isPosition);
+
+const validateRing = (ring: unknown, path: string, errors: string[]) => {
+  if (!isPositionList(ring, 0)) {
+    errors.push(`${path}: positions must be [longitude, latitude] number pairs.`);
+  } else if (ring.length < 4) {
+    errors.push(`${path}: a polygon ring needs at least 4 positions.`);
+  } else if (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1]) {
+    errors.push(`${path}: a polygon ring must end where it starts.`);
+  }
+};
+
+const validatePolygonCoordinates = (rings: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    errors.push(`${path}: a polygon needs at least one ring.`);
+    return;
+  }
+  rings.forEach((ring, index) => validateRing(ring, index === 0 ? path : `${path} hole ${index}`, errors));
+};
+
+const validateGeometry = (geometry: unknown, path: string, errors: string[]) => {
+  if (!isObject(geometry) || typeof geometry.type !== 'string' || !GEOMETRY_TYPES.includes(geometry.type)) {
+    errors.push(`${path}: geometry type must be one of ${GEOMETRY_TYPES.join(', ')}.`);
+    return;
+  }
+
+  const { coordinates } = geometry;
+  switch (geometry.type) {
+    case 'Point':
+      if (!isPosition(coordinates)) errors.push(`${path}: a point needs a [longitude, latitude] position.`);
+      break;
+    case 'MultiPoint':
+      if (!isPositionList(coordinates, 0)) errors.push(`${path}: positions must be [longitude, latitude] number pairs.`);
+      break;
+    case 'LineString':
+      if (!isPositionList(coordinates, 2)) errors.push(`${path}: a line needs at least 2 positions.`);
+      break;
+    case 'MultiLineString':
+      if (!Array.isArray(coordinates) || !coordinates.every(line => isPositionList(line, 2))) {
+        errors.push(`${path}: each line needs at least 2 positions.`);
+      }
+      break;
+    case 'Polygon':
+      validatePolygonCoordinates(coordinates, path, errors);
+      break;
+    case 'MultiPolygon':
+      if (!Array.isArray(coordinates)) {
+        errors.push(`${path}: a multipolygon needs a list of polygons.`);
+      } else {
+        coordinates.forEach((rings, index) => validatePolygonCoordinates(rings, `${path} part ${index + 1}`, errors));
+      }
+      break;
+    case 'GeometryCollection':
+      if (!Array.isArray(geometry.geometries)) {
+        errors.push(`${path}: a geometry collection needs a geometries list.`);
+      } else {
+        geometry.geometries.forEach((child, index) => validateGeometry(child, `${path} geometry ${index + 1}`, errors));
+      }
+      break;
+  }
+};
+
+const validateFeature = (feature: unknown, path: string, errors: string[]) => {
+  if (!isObject(feature) || feature.type !== 'Feature') {
+    errors.push(`${path}: must be an object with type "Feature".`);
+    return;
+  }
+  if (feature.properties !== undefined && feature.properties !== null && !isObject(feature.properties)) {
+    errors.push(`${path}: properties must be an object or null.`);
+  }
+  if (feature.id !== undefined && typeof feature.id !== 'string' && typeof feature.id !== 'number') {
+    errors.push(`${path}: id must be a string or number.`);
+  }
+  if (feature.geometry !== null) {
+    validateGeometry(feature.geometry, path, errors);
+  }
+};
+
+/**
+ * Check a parsed value against the GeoJSON (RFC 7946) structure.
+ * Returns a message for each problem found; an empty list means the value is valid.
+ */
+export const validateGeoJSON = (value: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(value) || typeof value.type !== 'string') {
+    return ['The file is not a GeoJSON object.'];
+  }
+
+  // RFC 7946 dropped "crs"; older files may still name one, which must be plain longitude/latitude
+  const crsName = isObject(value.crs) && isObject(value.crs.properties) ? value.crs.properties.name : undefined;
+  if (typeof crsName === 'string' && !WGS84_CRS_NAMES.includes(crsName)) {
+    errors.push(`Coordinates use ${crsName}; only WGS 84 longitude/latitude is supported.`);
+  }
+
+  if (value.type === 'FeatureCollection') {
+    if (!Array.isArray(value.features)) {
+      errors.push('A FeatureCollection needs a features list.');
+    } else {
+      value.features.forEach((feature, index) => validateFeature(feature, `Feature ${index + 1}`, errors));
+    }
+  } else if (value.type === 'Feature') {
+    validateFeature(value, 'Feature', errors);
+  } else {
+    validateGeometry(value, 'Geometry', errors);
+  }
+
+  return errors;
+};
+
+// Split multi-part and collection geometries into single polygons, points and lines, keeping 2D positions
+const flattenGeometry = (geometry: Geometry): ImportFeature['geometry'][] => {
+  const toPosition = (position: Position): Position => [position[0], position[1]];
+
+  switch (geometry.type) {
+    case 'Point':
+      return [{ type: 'Point', coordinates: toPosition(geometry.coordinates) }];
+    case 'MultiPoint':
+      return geometry.coordinates.map(position => ({ type: 'Point', coordinates: toPosition(position) }));
+    case 'LineString':
+      return [{ type: 'LineString', coordinates: geometry.coordinates.map(toPosition) }];
+    case 'MultiLineString':
+      return geometry.coordinates.map(line => ({ type: 'LineString', coordinates: line.map(toPosition) }));
+    case 'Polygon':
+      return [{ type: 'Polygon', coordinates: geometry.coordinates.map(ring => ring.map(toPosition)) }];
+    case 'MultiPolygon':
+      return geometry.coordinates.map(rings => ({
+        type: 'Polygon',
+        coordinates: rings.map(ring => ring.map(toPosition))
+      }));
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(flattenGeometry);
+  }
+};
+
+const getAllPositions = (features: ImportFeature[]): number[][] =>
+  features.flatMap(feature => {
+    const { geometry } = feature;
+    if (geometry.type === 'Point') return [geometry.coordinates];
+    if (geometry.type === 'LineString') return geometry.coordinates;
+    return geometry.coordinates.flat();
+  });
+
+const isInRange = ([longitude, latitude]: number[]) => Math.abs(longitude) <= 180 && Math.abs(latitude) <= 90;
+
+const swapPositions = (feature: ImportFeature): ImportFeature => {
+  const swap = (position: number[]) => [position[1], position[0]];
+  const { geometry } = feature;
+  return {
+    ...feature,
+    geometry: geometry.type === 'Point'
+      ? { type: 'Point', coordinates: swap(geometry.coordinates) }
+      : geometry.type === 'LineString'
+        ? { type: 'LineString', coordinates: geometry.coordinates.map(swap) }
+        : { type: 'Polygon', coordinates: geometry.coordinates.map(ring => ring.map(swap)) }
+  };
+};
+
+/**
+ * Read GeoJSON text into farm data ready to preview and merge.
+ * The whole file is rejected if it is not valid GeoJSON or its coordinates are out of range;
+ * coordinates written latitude first are swapped with a warning.
+ */
+export const readGeoJSON = (text: string, existing: PolygonCollection): ImportResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { data: null, errors: ['The file is not valid JSON.'] };
+  }
+
+  const errors = validateGeoJSON(value);
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  const root = value as JSONObject;
+  const rawFeatures: JSONObject[] = root.type === 'FeatureCollection'
+    ? root.features as JSONObject[]
+    : root.type === 'Feature' ? [root] : [{ type: 'Feature', properties: {}, geometry: root }];
+
+  const warnings: string[] = [];
+  const emptyCount = rawFeatures.filter(feature => feature.geometry === null).length;
+  if (emptyCount > 0) {
+    warnings.push(`${emptyCount} feature${emptyCount === 1 ? '' : 's'} without a geometry ${emptyCount === 1 ? 'was' : 'were'} skipped.`);
+  }
+
+  let features: ImportFeature[] = rawFeatures
+    .filter(feature => feature.geometry !== null)
+    // Validated above, so each geometry has the structure its type promises
+    .flatMap(feature => flattenGeometry(feature.geometry as Geometry).map(geometry => ({
+      type: 'Feature' as const,
+      id: feature.id as string | number | undefined,
+      properties: (feature.properties as JSONObject) || {},
+      geometry
+    })));
+
+  // GeoJSON is longitude first; files written latitude first only fit the valid range when swapped
+  const positions = getAllPositions(features);
+  if (!positions.every(isInRange)) {
+    if (positions.every(([x, y]) => isInRange([y, x]))) {
+      features = features.map(swapPositions);
+      warnings.push('Coordinates were in latitude, longitude order and have been swapped.');
+    } else {
+      return { data: null, errors: ['Some coordinates are outside the valid longitude/latitude range.'] };
+    }
+  }
+
+  if (features.length === 0) {
+    return { data: null, errors: ['The file has no shapes to import.'] };
+  }
+
+  return { data: buildImportedFarmData(features, existing, warnings), errors: [] };
+};
+
+/**
+ * Write farm data as a GeoJSON FeatureCollection, named after the farm
+ */
+export const writeGeoJSON = (data: FarmData, name?: string): string =>
+  JSON.stringify(createFarmDataCollection(data, name), null, 2);
@@ -0,0 +1,66 @@
+import { HistoryEntry, HistoryStacks, HistoryStep } from './types';
+import { MAX_HISTORY_SIZE } from '../constants';
+
+// Snapshots hold the state objects themselves, so an unchanged snapshot has the very same objects
+const isSameHistoryEntry = (a: HistoryEntry, b: HistoryEntry): boolean =>
+  a.currentPolygon === b.currentPolygon && a.completedPolygons === b.completedPolygons &&
+  a.livestockData === b.livestockData && a.setbackZones === b.setbackZones &&
+  a.infrastructure === b.infrastructure && a.fences === b.fences;
+
+// Whether restoring an entry would change anything visible; drawing points only matter while drawing
+const changesHistoryState = (entry: HistoryEntry, current: HistoryEntry, isDrawing: boolean): boolean =>
+  entry.completedPolygons !== current.completedPolygons || entry.setbackZones !== current.setbackZones ||
+  entry.livestockData !== current.livestockData || entry.infrastructure !== current.infrastructure ||
+  entry.fences !== current.fences || (isDrawing && entry.currentPolygon !== current.currentPolygon);
+
+// Add a snapshot to the top of a stack, dropping the oldest beyond MAX_HISTORY_SIZE
+const pushHistoryEntry = (stack: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+  const last = stack[stack.length - 1];
+  // Several updates from one action share a single snapshot
+  if (last && isSameHistoryEntry(last, entry)) return stack;
+  return [...stack, entry].slice(-MAX_HISTORY_SIZE);
+};
+
+// Take the newest entry that would change something off a stack, skipping entries left over from finished drawings
+const popHistoryEntry = (
+  stack: HistoryEntry[],
+  current: HistoryEntry,
+  isDrawing: boolean
+): { remaining: HistoryEntry[]; entry: HistoryEntry | null } => {
+  const remaining = [...stack];
+  let entry = remaining.pop();
+  while (entry && !changesHistoryState(entry, current, isDrawing)) {
+    entry = remaining.pop();
+  }
+  return { remaining, entry: entry || null };
+};
+
+/**
+ * Remember the state before an edit; a new edit clears anything that could be redone
+ */
+export const recordHistoryEntry = (stacks: HistoryStacks, snapshot: HistoryEntry): HistoryStacks => ({
+  undo: pushHistoryEntry(stacks.undo, snapshot),
+  redo: []
+});
+
+/**
+ * Step back to the last recorded state, keeping the current state to redo
+ */
+export const undoHistory = (stacks: HistoryStacks, current: HistoryEntry, isDrawing: boolean): HistoryStep => {
+  const { remaining, entry } = popHistoryEntry(stacks.undo, current, isDrawing);
+  if (!entry) {
+    return { stacks: { ...stacks, undo: [] }, entry: null };
+  }
+  return { stacks: { undo: remaining, redo: pushHistoryEntry(stacks.redo, current) }, entry };
+};
+
+/**
+ * Step forward to the last undone state, keeping the current state to undo
+ */
+export const redoHistory = (stacks: HistoryStacks, current: HistoryEntry, isDrawing: boolean): HistoryStep => {
+  const { remaining, entry } = popHistoryEntry(stacks.redo, current, isDrawing);
+  if (!entry) {
+    return { stacks: { ...stacks, redo: [] }, entry: null };
+  }
+  return { stacks: { undo: pushHistoryEntry(stacks.undo, current), redo: remaining }, entry };
+};
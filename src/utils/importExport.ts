@@ -0,0 +1,434 @@
+import {
+  PolygonFeature,
+  PolygonCollection,
+  LivestockData,
+  LivestockType,
+  LivestockStatus,
+  InfrastructureFeature,
+  InfrastructureType,
+  InfrastructureStatus,
+  FenceFeature,
+  FenceMaterial,
+  FenceCondition,
+  FarmData,
+  FarmDataCollection,
+  ImportFeature,
+  ImportedFarmData,
+  ImportConflict,
+  ImportMergeStrategy
+} from './types';
+import {
+  addMeasurementsToFeature,
+  calculateLineLength,
+  findOverlappingPaddocks,
+  getFarmBoundaries,
+  groupLivestockByPaddock,
+  isPaddockWithinFarm,
+  isPointInPolygonRings
+} from './mapUtils';
+import {
+  INFRASTRUCTURE_TYPES,
+  INFRASTRUCTURE_STATUSES,
+  FENCE_MATERIALS,
+  FENCE_CONDITIONS
+} from '../constants';
+
+// Values of a foreign type field that mean a farm or a paddock
+const FARM_TYPE_NAMES = ['farm', 'property', 'boundary', 'holding', 'station', 'ranch'];
+const PADDOCK_TYPE_NAMES = ['paddock', 'field', 'pasture', 'block'];
+
+const LIVESTOCK_TYPES: LivestockType[] = ['cattle', 'sheep', 'goats', 'horses', 'other'];
+const LIVESTOCK_STATUSES: LivestockStatus[] = ['healthy', 'attention', 'quarantine', 'breeding', 'medication'];
+
+type ForeignProperties = Record<string, unknown>;
+
+const normaliseKey = (key: string): string => key.toLowerCase().replace(/[\s_-]/g, '');
+
+// Read the first of the given keys set on foreign properties, ignoring case, spaces and underscores
+const readProperty = (properties: ForeignProperties, keys: string[]): unknown => {
+  for (const key of keys.map(normaliseKey)) {
+    const match = Object.keys(properties).find(candidate => normaliseKey(candidate) === key);
+    if (match !== undefined && properties[match] !== null && properties[match] !== '') {
+      return properties[match];
+    }
+  }
+  return undefined;
+};
+
+const readString = (properties: ForeignProperties, keys: string[]): string | undefined => {
+  const value = readProperty(properties, keys);
+  return value === undefined ? undefined : String(value).trim() || undefined;
+};
+
+const readNumber = (properties: ForeignProperties, keys: string[]): number | undefined => {
+  const value = readProperty(properties, keys);
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return value !== undefined && isFinite(number) ? number : undefined;
+};
+
+const readBoolean = (properties: ForeignProperties, keys: string[]): boolean => {
+  const value = readProperty(properties, keys);
+  return value === true || ['true', 'yes', 'y', '1'].includes(String(value).toLowerCase());
+};
+
+// Read a value that must be one of a fixed set, e.g. a livestock type
+const readOption = <T extends string>(properties: ForeignProperties, keys: string[], options: T[]): T | undefined => {
+  const value = readString(properties, keys)?.toLowerCase().replace(/[\s_]/g, '-');
+  return options.find(option => option === value);
+};
+
+const readPolygonType = (properties: ForeignProperties): 'farm' | 'paddock' | undefined => {
+  const value = readString(properties, ['type', 'featureType', 'kind', 'category', 'class'])?.toLowerCase();
+  if (!value) return undefined;
+  if (FARM_TYPE_NAMES.includes(value)) return 'farm';
+  if (PADDOCK_TYPE_NAMES.includes(value)) return 'paddock';
+  return undefined;
+};
+
+const getFeatureId = (feature: ImportFeature): string | undefined => {
+  const id = readString(feature.properties || {}, ['id']) ?? feature.id;
+  return id === undefined ? undefined : String(id);
+};
+
+/**
+ * Map features read from a file onto farms, paddocks, livestock, infrastructure and fences.
+ * Foreign property names are matched loosely (e.g. "Name", "description", "PIC"); polygons
+ * without a recognised type become paddocks when they sit inside a farm, otherwise farms.
+ */
+export const buildImportedFarmData = (
+  features: ImportFeature[],
+  existing: PolygonCollection,
+  warnings: string[] = []
+): ImportedFarmData => {
+  const timestamp = Date.now();
+  const usedIds = new Set<string>();
+
+  // IDs from the file are kept so re-importing an export can be matched up, but must be unique
+  const takeId = (id: string | undefined, prefix: string, index: number): string => {
+    const candidate = id && !usedIds.has(id) ? id : `${prefix}_${timestamp}_${index}`;
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  const polygonFeatures = features.filter(feature => feature.geometry.type === 'Polygon');
+  const drafts = polygonFeatures.map((feature, index) => {
+    const properties = feature.properties || {};
+    return {
+      properties,
+      id: takeId(getFeatureId(feature), 'imported', index),
+      name: readString(properties, ['name', 'title', 'label', 'paddockName', 'farmName']) || `Imported Area ${index + 1}`,
+      explicitType: readPolygonType(properties),
+      parentId: readString(properties, ['parentId', 'farmId', 'farm']),
+      rings: (feature.geometry as PolygonFeature['geometry']).coordinates
+    };
+  });
+
+  // Untyped polygons holding another polygon are farms; the rest are paddocks if a farm holds them
+  const existingFarms = getFarmBoundaries(existing);
+  const holdsAnother = drafts.map(draft =>
+    drafts.some(other => other !== draft && isPaddockWithinFarm(other.rings, draft.rings))
+  );
+  const isFarmCandidate = drafts.map((draft, index) =>
+    draft.explicitType === 'farm' || (draft.explicitType === undefined && holdsAnother[index])
+  );
+  const candidateFarmRings = [
+    ...drafts.filter((_, index) => isFarmCandidate[index]).map(draft => draft.rings),
+    ...existingFarms.map(farm => farm.geometry.coordinates)
+  ];
+  const isFarm = drafts.map((draft, index) => isFarmCandidate[index] || (
+    draft.explicitType === undefined &&
+    !candidateFarmRings.some(rings => isPaddockWithinFarm(draft.rings, rings))
+  ));
+  const importedFarms = drafts.filter((_, index) => isFarm[index]);
+  // Imported farms come first, so they win when an existing farm shares their ID
+  const farmRings: [string, number[][][]][] = [
+    ...importedFarms.map(farm => [farm.id, farm.rings] as [string, number[][][]]),
+    ...existingFarms.map(farm => [farm.properties.id, farm.geometry.coordinates] as [string, number[][][]])
+  ];
+  const findFarmId = (contains: (rings: number[][][]) => boolean, preferredId?: string): string | undefined =>
+    farmRings.find(([id, rings]) => id === preferredId && contains(rings))?.[0] ??
+    farmRings.find(([, rings]) => contains(rings))?.[0];
+
+  const polygons: PolygonFeature[] = drafts.map((draft, index) => {
+    const { properties } = draft;
+    let type: 'farm' | 'paddock' = isFarm[index] ? 'farm' : 'paddock';
+    let parentId: string | undefined;
+
+    if (type === 'paddock') {
+      parentId = findFarmId(rings => isPaddockWithinFarm(draft.rings, rings), draft.parentId);
+
+      if (!parentId) {
+        type = 'farm';
+        warnings.push(`${draft.name} is not inside any farm, so it was imported as a farm.`);
+      }
+    }
+
+    return addMeasurementsToFeature({
+      type: 'Feature',
+      properties: {
+        id: draft.id,
+        name: draft.name,
+        created: readString(properties, ['created']) || new Date().toISOString(),
+        type,
+        parentId,
+        purpose: type === 'paddock' ? readString(properties, ['purpose', 'use', 'landUse']) : undefined,
+        capacity: readNumber(properties, ['capacity', 'stockCapacity', 'carryingCapacity']),
+        notes: readString(properties, ['notes', 'description', 'comment', 'comments']),
+        owner: type === 'farm' ? readString(properties, ['owner', 'ownerName']) : undefined,
+        propertyCode: type === 'farm' ? readString(properties, ['propertyCode', 'pic', 'propertyIdentificationCode'])?.toUpperCase() : undefined,
+        address: type === 'farm' ? readString(properties, ['address']) : undefined
+      },
+      geometry: { type: 'Polygon', coordinates: draft.rings }
+    } as PolygonFeature);
+  });
+
+  const livestockData: LivestockData[] = drafts
+    .map((draft, index) => ({ draft, polygon: polygons[index] }))
+    .filter(({ draft, polygon }) =>
+      polygon.properties.type === 'paddock' && readNumber(draft.properties, ['livestockCount', 'headCount']) !== undefined
+    )
+    .map(({ draft, polygon }) => ({
+      paddockId: polygon.properties.id,
+      count: Math.max(0, Math.round(readNumber(draft.properties, ['livestockCount', 'headCount'])!)),
+      type: readOption(draft.properties, ['livestockType'], LIVESTOCK_TYPES) || 'other',
+      status: readOption(draft.properties, ['livestockStatus'], LIVESTOCK_STATUSES) || 'healthy',
+      lastUpdated: readString(draft.properties, ['livestockUpdated']) || new Date().toISOString()
+    }));
+
+  const infrastructureTypes = INFRASTRUCTURE_TYPES.map(option => option.type);
+  const pointFeatures = features.filter(feature => feature.geometry.type === 'Point');
+  const infrastructure: InfrastructureFeature[] = [];
+  pointFeatures.forEach((feature, index) => {
+    const properties = feature.properties || {};
+    const type = readOption<InfrastructureType>(properties, ['type', 'featureType', 'kind', 'category'], infrastructureTypes);
+    if (!type) return;
+
+    infrastructure.push({
+      type: 'Feature',
+      properties: {
+        id: takeId(getFeatureId(feature), 'infrastructure', index),
+        name: readString(properties, ['name', 'title', 'label']) || `${INFRASTRUCTURE_TYPES.find(option => option.type === type)!.label} ${index + 1}`,
+        created: readString(properties, ['created']) || new Date().toISOString(),
+        type,
+        status: readOption<InfrastructureStatus>(properties, ['status', 'condition'], INFRASTRUCTURE_STATUSES.map(option => option.status)) || 'working',
+        capacity: readNumber(properties, ['capacity']),
+        notes: readString(properties, ['notes', 'description', 'comment'])
+      },
+      geometry: feature.geometry as InfrastructureFeature['geometry']
+    });
+  });
+  if (infrastructure.length < pointFeatures.length) {
+    const skipped = pointFeatures.length - infrastructure.length;
+    warnings.push(`${skipped} point${skipped === 1 ? '' : 's'} without a trough, gate, dam, shed, tank or yard type ${skipped === 1 ? 'was' : 'were'} skipped.`);
+  }
+
+  // Fences belong to the farm they were exported with, or the farm holding their first point
+  const fences: FenceFeature[] = features
+    .filter(feature => feature.geometry.type === 'LineString')
+    .map((feature, index) => {
+      const properties = feature.properties || {};
+      const coordinates = (feature.geometry as FenceFeature['geometry']).coordinates;
+      const farmId = readString(properties, ['farmId']);
+
+      return {
+        type: 'Feature',
+        properties: {
+          id: takeId(getFeatureId(feature), 'fence', index),
+          name: readString(properties, ['name', 'title', 'label']) || `Fence ${index + 1}`,
+          created: readString(properties, ['created']) || new Date().toISOString(),
+          material: readOption<FenceMaterial>(properties, ['material'], FENCE_MATERIALS.map(option => option.material)) || 'plain-wire',
+          wireCount: readNumber(properties, ['wireCount', 'wires']),
+          electric: readBoolean(properties, ['electric', 'electrified']),
+          condition: readOption<FenceCondition>(properties, ['condition'], FENCE_CONDITIONS.map(option => option.condition)) || 'good',
+          notes: readString(properties, ['notes', 'description', 'comment']),
+          farmId: farmRings.some(([id]) => id === farmId)
+            ? farmId
+            : findFarmId(rings => isPointInPolygonRings(coordinates[0], rings)),
+          length: calculateLineLength(coordinates)
+        },
+        geometry: feature.geometry as FenceFeature['geometry']
+      };
+    });
+
+  return { polygons, livestockData, infrastructure, fences, warnings };
+};
+
+/**
+ * Find imported features that share an ID with existing ones, and imported farms or
+ * paddocks that overlap existing farms or paddocks of the same farm
+ */
+export const findImportConflicts = (imported: ImportedFarmData, existing: FarmData): ImportConflict[] => {
+  const conflicts: ImportConflict[] = [];
+  const existingPolygons = existing.polygons.features as PolygonFeature[];
+
+  const addSameIdConflicts = (
+    importedFeatures: { properties: { id: string; name: string } }[],
+    existingFeatures: { properties: { id: string; name: string } }[]
+  ) => {
+    const existingById = new Map(existingFeatures.map(feature => [feature.properties.id, feature]));
+    importedFeatures.forEach(feature => {
+      const match = existingById.get(feature.properties.id);
+      if (match) {
+        conflicts.push({
+          importedId: feature.properties.id,
+          importedName: feature.properties.name,
+          existingId: match.properties.id,
+          existingName: match.properties.name,
+          reason: 'same-id'
+        });
+      }
+    });
+  };
+
+  addSameIdConflicts(imported.polygons, existingPolygons);
+  addSameIdConflicts(imported.infrastructure, existing.infrastructure.features);
+  addSameIdConflicts(imported.fences, existing.fences.features);
+
+  imported.polygons.forEach(polygon => {
+    const { id, name, type, parentId } = polygon.properties;
+    const neighbours = existingPolygons.filter(feature => type === 'farm'
+      ? feature.properties.type === 'farm'
+      : feature.properties.type === 'paddock' && feature.properties.parentId === parentId);
+
+    findOverlappingPaddocks(polygon.geometry.coordinates, neighbours, id).forEach(overlapped => {
+      conflicts.push({
+        importedId: id,
+        importedName: name,
+        existingId: overlapped.properties.id,
+        existingName: overlapped.properties.name,
+        reason: 'overlap'
+      });
+    });
+  });
+
+  return conflicts;
+};
+
+/**
+ * Merge imported features into the existing data. Features sharing an ID with existing ones
+ * either replace them in place or are kept alongside them under a new ID.
+ */
+export const mergeImportedFarmData = (
+  existing: FarmData,
+  imported: ImportedFarmData,
+  strategy: ImportMergeStrategy
+): FarmData => {
+  const existingIds = new Set<string>([
+    ...existing.polygons.features.map(feature => feature.properties?.id),
+    ...existing.infrastructure.features.map(feature => feature.properties.id),
+    ...existing.fences.features.map(feature => feature.properties.id)
+  ]);
+
+  // Keeping both gives clashing imports a fresh ID, and updates anything that refers to them
+  const timestamp = Date.now();
+  const renamed = new Map<string, string>();
+  if (strategy === 'keep-both') {
+    [...imported.polygons, ...imported.infrastructure, ...imported.fences].forEach((feature, index) => {
+      if (existingIds.has(feature.properties.id)) {
+        renamed.set(feature.properties.id, `${feature.properties.id}_${timestamp}_${index}`);
+      }
+    });
+  }
+  const rename = (id: string) => renamed.get(id) || id;
+  // A farm ID only follows the rename when it refers to an imported farm rather than the existing one
+  const importedFarmIds = new Set(imported.polygons
+    .filter(polygon => polygon.properties.type === 'farm')
+    .map(polygon => polygon.properties.id));
+  const renameFarmId = (id?: string) => id !== undefined && importedFarmIds.has(id) ? rename(id) : id;
+
+  const polygons = imported.polygons.map(polygon => ({
+    ...polygon,
+    properties: { ...polygon.properties, id: rename(polygon.properties.id), parentId: renameFarmId(polygon.properties.parentId) }
+  }));
+  const infrastructure = imported.infrastructure.map(point => ({
+    ...point,
+    properties: { ...point.properties, id: rename(point.properties.id) }
+  }));
+  const fences = imported.fences.map(fence => ({
+    ...fence,
+    properties: { ...fence.properties, id: rename(fence.properties.id), farmId: renameFarmId(fence.properties.farmId) }
+  }));
+  const livestockData = imported.livestockData.map(data => ({ ...data, paddockId: rename(data.paddockId) }));
+
+  // Replace features with the same ID in place and append the rest
+  const mergeFeatures = <T extends { properties: { id: string } }>(current: T[], incoming: T[]): T[] => {
+    const incomingById = new Map(incoming.map(feature => [feature.properties.id, feature]));
+    const currentIds = new Set(current.map(feature => feature.properties.id));
+    return [
+      ...current.map(feature => incomingById.get(feature.properties.id) || feature),
+      ...incoming.filter(feature => !currentIds.has(feature.properties.id))
+    ];
+  };
+
+  const importedPaddockIds = new Set(livestockData.map(data => data.paddockId));
+
+  return {
+    polygons: {
+      ...existing.polygons,
+      features: mergeFeatures(existing.polygons.features as PolygonFeature[], polygons)
+    },
+    livestockData: [
+      ...existing.livestockData.filter(data => !importedPaddockIds.has(data.paddockId)),
+      ...livestockData
+    ],
+    infrastructure: {
+      ...existing.infrastructure,
+      features: mergeFeatures(existing.infrastructure.features as InfrastructureFeature[], infrastructure)
+    },
+    fences: {
+      ...existing.fences,
+      features: mergeFeatures(existing.fences.features as FenceFeature[], fences)
+    }
+  };
+};
+
+// Twice the signed planar area of a ring; positive when it runs counterclockwise
+const getRingOrientation = (ring: number[][]): number =>
+  ring.reduce((total, [x1, y1], index) => {
+    const [x2, y2] = ring[(index + 1) % ring.length];
+    return total + (x1 * y2 - x2 * y1);
+  }, 0);
+
+/**
+ * Wind the outer ring counterclockwise and holes clockwise (the GeoJSON right-hand rule)
+ */
+export const rewindPolygonRings = (rings: number[][][]): number[][][] =>
+  rings.map((ring, index) => (index === 0) === (getRingOrientation(ring) > 0) ? ring : [...ring].reverse());
+
+/**
+ * Collect farms, paddocks (with their livestock), infrastructure and fences into one
+ * feature collection for export
+ */
+export const createFarmDataCollection = (data: FarmData, name?: string): FarmDataCollection => {
+  const livestockByPaddock = groupLivestockByPaddock(data.livestockData);
+
+  const polygons = (data.polygons.features as PolygonFeature[])
+    .filter(feature => feature.properties.type === 'farm' || feature.properties.type === 'paddock')
+    .map(feature => {
+      const livestock = livestockByPaddock.get(feature.properties.id);
+      return {
+        type: 'Feature' as const,
+        properties: {
+          ...feature.properties,
+          ...(livestock ? {
+            livestockCount: livestock.count,
+            livestockType: livestock.type,
+            livestockStatus: livestock.status,
+            livestockUpdated: livestock.lastUpdated
+          } : {})
+        },
+        geometry: { type: 'Polygon' as const, coordinates: rewindPolygonRings(feature.geometry.coordinates) }
+      };
+    });
+
+  const fences = data.fences.features.map(fence => ({
+    ...fence,
+    properties: { ...fence.properties, length: calculateLineLength(fence.geometry.coordinates) }
+  }));
+
+  return {
+    type: 'FeatureCollection',
+    ...(name ? { name } : {}),
+    features: [...polygons, ...data.infrastructure.features, ...fences]
+  };
+};
@@ -1,3 +1,9 @@
 export * from './types';
 export * from './mapUtils';
+export * from './spatialIndex';
+export * from './history';
+export * from './importExport';
+export * from './geojson';
+export * from './kml';
+export * from './kmz';
 export * from './storage'; 
\ No newline at end of file
@@ -0,0 +1,347 @@
+import {
+  PolygonCollection,
+  FarmData,
+  ImportFeature,
+  ImportResult
+} from './types';
+import { buildImportedFarmData, createFarmDataCollection } from './importExport';
+import { COLORS } from '../constants';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Namespace prefixes are dropped, so gx:Track and Track are read alike
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+/**
+ * Parse XML into an element tree. Only what KML needs is supported: elements, attributes,
+ * text and CDATA; comments, declarations and processing instructions are skipped.
+ * Throws on badly nested or unclosed tags.
+ */
+const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  let index = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, index);
+    if (end === -1) throw new Error('The file ends part way through a tag.');
+    const skipped = text.slice(index, end);
+    index = end + terminator.length;
+    return skipped;
+  };
+
+  while (index < text.length) {
+    const current = stack[stack.length - 1];
+    const tagStart = text.indexOf('<', index);
+    if (tagStart === -1) {
+      current.text += decodeEntities(text.slice(index));
+      break;
+    }
+    current.text += decodeEntities(text.slice(index, tagStart));
+    index = tagStart;
+
+    if (text.startsWith('<!--', index)) {
+      skipPast('-->');
+    } else if (text.startsWith('<![CDATA[', index)) {
+      index += '<![CDATA['.length;
+      current.text += skipPast(']]>');
+    } else if (text.startsWith('<?', index) || text.startsWith('<!', index)) {
+      skipPast('>');
+    } else if (text.startsWith('</', index)) {
+      index += 2;
+      const name = localName(skipPast('>').trim());
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>.`);
+      }
+      stack.pop();
+    } else {
+      index += 1;
+      const tag = skipPast('>');
+      const selfClosing = tag.endsWith('/');
+      const [, name = '', rest = ''] = tag.replace(/\/$/, '').match(/^\s*([^\s]+)([\s\S]*)$/) || [];
+      const element: XmlElement = { name: localName(name), attributes: {}, children: [], text: '' };
+      for (const [, key, , doubleQuoted, singleQuoted] of rest.matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        element.attributes[localName(key)] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`The <${stack[stack.length - 1].name}> tag is never closed.`);
+  }
+  return root;
+};
+
+const findChild = (element: XmlElement, name: string) => element.children.find(child => child.name === name);
+
+const findChildren = (element: XmlElement, name: string) => element.children.filter(child => child.name === name);
+
+const findDescendants = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.flatMap(child => child.name === name ? [child] : findDescendants(child, name));
+
+const childText = (element: XmlElement, name: string): string | undefined => findChild(element, name)?.text.trim();
+
+// KML writes "longitude,latitude[,altitude]" tuples separated by whitespace; altitude is dropped
+const parseCoordinates = (text: string): number[][] | null => {
+  const positions = text.trim().split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').map(Number));
+  return positions.every(position => position.length >= 2 && position.every(isFinite))
+    ? positions.map(position => [position[0], position[1]])
+    : null;
+};
+
+const readRing = (ringElement: XmlElement | undefined, path: string, errors: string[]): number[][] | null => {
+  const ring = ringElement ? parseCoordinates(childText(ringElement, 'coordinates') || '') : null;
+  if (!ring) {
+    errors.push(`${path}: coordinates must be longitude,latitude pairs.`);
+    return null;
+  }
+  // Unlike GeoJSON, some KML writers leave rings open
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const closed = first && (first[0] !== last[0] || first[1] !== last[1]) ? [...ring, first] : ring;
+  if (closed.length < 4) {
+    errors.push(`${path}: a polygon ring needs at least 3 distinct positions.`);
+    return null;
+  }
+  return closed;
+};
+
+// Collect the polygons, points and lines of a placemark, including those inside a MultiGeometry
+const readGeometries = (element: XmlElement, path: string, errors: string[]): ImportFeature['geometry'][] =>
+  element.children.flatMap((child): ImportFeature['geometry'][] => {
+    switch (child.name) {
+      case 'Polygon': {
+        const outer = readRing(findChild(findChild(child, 'outerBoundaryIs') || child, 'LinearRing'), path, errors);
+        // Some writers put several rings in one innerBoundaryIs
+        const holes = findChildren(child, 'innerBoundaryIs')
+          .flatMap(boundary => findChildren(boundary, 'LinearRing'))
+          .map((ring, index) => readRing(ring, `${path} hole ${index + 1}`, errors));
+        if (!outer || holes.some(hole => !hole)) return [];
+        return [{ type: 'Polygon', coordinates: [outer, ...(holes as number[][][])] }];
+      }
+      case 'Point': {
+        const positions = parseCoordinates(childText(child, 'coordinates') || '');
+        if (!positions || positions.length !== 1) {
+          errors.push(`${path}: a point needs one longitude,latitude pair.`);
+          return [];
+        }
+        return [{ type: 'Point', coordinates: positions[0] }];
+      }
+      case 'LineString': {
+        const positions = parseCoordinates(childText(child, 'coordinates') || '');
+        if (!positions || positions.length < 2) {
+          errors.push(`${path}: a line needs at least 2 positions.`);
+          return [];
+        }
+        return [{ type: 'LineString', coordinates: positions }];
+      }
+      case 'MultiGeometry':
+        return readGeometries(child, path, errors);
+      default:
+        return [];
+    }
+  });
+
+// Name, description and ExtendedData values (both <Data> and schema <SimpleData>) as plain properties
+const readPlacemarkProperties = (placemark: XmlElement): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  const extendedData = findChild(placemark, 'ExtendedData');
+  if (extendedData) {
+    findChildren(extendedData, 'Data').forEach(data => {
+      if (data.attributes.name) properties[data.attributes.name] = (childText(data, 'value') ?? '');
+    });
+    findDescendants(extendedData, 'SimpleData').forEach(data => {
+      if (data.attributes.name) properties[data.attributes.name] = data.text.trim();
+    });
+  }
+
+  const name = childText(placemark, 'name');
+  if (name) properties.name = name;
+
+  // Descriptions are often HTML tables; keep only their text
+  const description = childText(placemark, 'description')?.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (description && properties.description === undefined) properties.description = description;
+
+  return properties;
+};
+
+/**
+ * Read KML text into farm data ready to preview and merge. Every Placemark polygon
+ * (with its inner rings), point and line is imported, and ExtendedData is mapped onto
+ * feature properties the same way as GeoJSON properties.
+ */
+export const readKML = (text: string, existing: PolygonCollection): ImportResult => {
+  let document: XmlElement;
+  try {
+    document = parseXml(text);
+  } catch (error) {
+    return { data: null, errors: [`The file is not valid XML. ${error instanceof Error ? error.message : ''}`.trim()] };
+  }
+
+  if (!findChild(document, 'kml')) {
+    return { data: null, errors: ['The file is not a KML document.'] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const features: ImportFeature[] = [];
+  let emptyCount = 0;
+
+  findDescendants(document, 'Placemark').forEach((placemark, index) => {
+    const path = `Placemark ${index + 1}`;
+    const geometries = readGeometries(placemark, path, errors);
+    if (geometries.length === 0) {
+      emptyCount += 1;
+      return;
+    }
+    const properties = readPlacemarkProperties(placemark);
+    geometries.forEach(geometry => {
+      features.push({ type: 'Feature', id: placemark.attributes.id, properties, geometry });
+    });
+  });
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+  if (emptyCount > 0) {
+    warnings.push(`${emptyCount} placemark${emptyCount === 1 ? '' : 's'} without a polygon, point or line ${emptyCount === 1 ? 'was' : 'were'} skipped.`);
+  }
+  if (features.length === 0) {
+    return { data: null, errors: ['The file has no shapes to import.'] };
+  }
+
+  // KML is always longitude first, so out of range coordinates cannot be fixed by swapping
+  const positions = features.flatMap(({ geometry }) =>
+    geometry.type === 'Point' ? [geometry.coordinates]
+      : geometry.type === 'LineString' ? geometry.coordinates
+      : geometry.coordinates.flat());
+  if (!positions.every(([longitude, latitude]) => Math.abs(longitude) <= 180 && Math.abs(latitude) <= 90)) {
+    return { data: null, errors: ['Some coordinates are outside the valid longitude/latitude range.'] };
+  }
+
+  return { data: buildImportedFarmData(features, existing, warnings), errors: [] };
+};
+
+// KML colours are written alpha, blue, green, red
+const toKmlColor = (hex: string, alpha: number): string => {
+  const [red, green, blue] = [1, 3, 5].map(start => hex.slice(start, start + 2));
+  return `${Math.round(alpha * 255).toString(16).padStart(2, '0')}${blue}${green}${red}`.toLowerCase();
+};
+
+const writeStyle = (id: string, color: string, fillAlpha: number) => [
+  `    <Style id="${id}">`,
+  `      <IconStyle><color>${toKmlColor(color, 1)}</color></IconStyle>`,
+  `      <LineStyle><color>${toKmlColor(color, 1)}</color><width>3</width></LineStyle>`,
+  `      <PolyStyle><color>${toKmlColor(color, fillAlpha)}</color></PolyStyle>`,
+  '    </Style>'
+];
+
+const writeCoordinates = (positions: number[][]) => positions.map(([longitude, latitude]) => `${longitude},${latitude}`).join(' ');
+
+const writePlacemark = (
+  feature: ReturnType<typeof createFarmDataCollection>['features'][number],
+  styleId: string,
+  indent: string
+): string[] => {
+  const properties = feature.properties as Record<string, unknown>;
+  const { geometry } = feature;
+
+  // Everything but the name and notes, which have their own KML elements
+  const extendedData = Object.entries(properties)
+    .filter(([key, value]) => key !== 'name' && key !== 'notes' && value !== undefined && value !== null && typeof value !== 'object')
+    .map(([key, value]) => `${indent}    <Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`);
+
+  const geometryLines = geometry.type === 'Point'
+    ? [`${indent}  <Point><coordinates>${writeCoordinates([geometry.coordinates])}</coordinates></Point>`]
+    : geometry.type === 'LineString'
+      ? [`${indent}  <LineString><tessellate>1</tessellate><coordinates>${writeCoordinates(geometry.coordinates)}</coordinates></LineString>`]
+      : [
+        `${indent}  <Polygon>`,
+        ...geometry.coordinates.map((ring, index) => {
+          const boundary = index === 0 ? 'outerBoundaryIs' : 'innerBoundaryIs';
+          return `${indent}    <${boundary}><LinearRing><coordinates>${writeCoordinates(ring)}</coordinates></LinearRing></${boundary}>`;
+        }),
+        `${indent}  </Polygon>`
+      ];
+
+  return [
+    `${indent}<Placemark id="${escapeXml(String(properties.id))}">`,
+    `${indent}  <name>${escapeXml(String(properties.name ?? ''))}</name>`,
+    ...(properties.notes ? [`${indent}  <description>${escapeXml(String(properties.notes))}</description>`] : []),
+    `${indent}  <styleUrl>#${styleId}</styleUrl>`,
+    `${indent}  <ExtendedData>`,
+    ...extendedData,
+    `${indent}  </ExtendedData>`,
+    ...geometryLines,
+    `${indent}</Placemark>`
+  ];
+};
+
+/**
+ * Write farm data as a KML document, with a folder for each farm holding its boundary,
+ * paddocks, infrastructure and fences. Feature details are kept as ExtendedData.
+ */
+export const writeKML = (data: FarmData, name?: string): string => {
+  const { features } = createFarmDataCollection(data, name);
+  const getStyleId = (feature: typeof features[number]) =>
+    feature.geometry.type === 'Point' ? 'infrastructure'
+      : feature.geometry.type === 'LineString' ? 'fence'
+      : String(feature.properties?.type);
+  const getFarmId = (feature: typeof features[number]) => {
+    const properties = feature.properties as Record<string, unknown>;
+    return properties.type === 'farm' && feature.geometry.type === 'Polygon'
+      ? properties.id
+      : properties.parentId ?? properties.farmId;
+  };
+
+  const farms = features.filter(feature => feature.geometry.type === 'Polygon' && feature.properties?.type === 'farm');
+  const farmIds = new Set(farms.map(getFarmId));
+
+  const folders = farms.flatMap(farm => [
+    '    <Folder>',
+    `      <name>${escapeXml(String(farm.properties?.name ?? ''))}</name>`,
+    ...features
+      .filter(feature => getFarmId(feature) === getFarmId(farm))
+      .flatMap(feature => writePlacemark(feature, getStyleId(feature), '      ')),
+    '    </Folder>'
+  ]);
+  const unfiled = features
+    .filter(feature => !farmIds.has(getFarmId(feature)))
+    .flatMap(feature => writePlacemark(feature, getStyleId(feature), '    '));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    ...(name ? [`    <name>${escapeXml(name)}</name>`] : []),
+    ...writeStyle('farm', COLORS.FARM_BOUNDARY, 0.2),
+    ...writeStyle('paddock', COLORS.PADDOCK, 0.3),
+    ...writeStyle('infrastructure', COLORS.INFRASTRUCTURE, 1),
+    ...writeStyle('fence', COLORS.FENCE, 1),
+    ...folders,
+    ...unfiled,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
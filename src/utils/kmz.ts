@@ -0,0 +1,39 @@
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import {
+  PolygonCollection,
+  FarmData,
+  ImportResult
+} from './types';
+import { readKML, writeKML } from './kml';
+
+/**
+ * Whether the bytes are a zip file, such as a KMZ, which always starts with "PK\x03\x04"
+ */
+export const isZip = (bytes: Uint8Array): boolean =>
+  bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+/**
+ * Read a KMZ (a zip holding a KML document, usually doc.kml) into farm data ready to preview and merge
+ */
+export const readKMZ = (bytes: Uint8Array, existing: PolygonCollection): ImportResult => {
+  let text: string;
+  try {
+    const files = unzipSync(bytes);
+    const kmlNames = Object.keys(files).filter(name => name.toLowerCase().endsWith('.kml'));
+    const documentName = kmlNames.find(name => name.toLowerCase() === 'doc.kml') || kmlNames[0];
+    if (!documentName) {
+      return { data: null, errors: ['The KMZ file has no KML document in it.'] };
+    }
+    text = strFromU8(files[documentName]);
+  } catch (error) {
+    return { data: null, errors: ['The file is not a valid KMZ archive.'] };
+  }
+
+  return readKML(text, existing);
+};
+
+/**
+ * Write farm data as a KMZ file holding a deflated doc.kml
+ */
+export const writeKMZ = (data: FarmData, name?: string): Uint8Array =>
+  zipSync({ 'doc.kml': strToU8(writeKML(data, name)) });
@@ -1,4 +1,21 @@
-import { PolygonFeature, PolygonCollection, PointCollection } from './types';
+import * as polygonClipping from 'polygon-clipping';
+import type { Polygon as ClippingPolygon } from 'polygon-clipping';
+import {
+  PolygonFeature,
+  PolygonCollection,
+  PointCollection,
+  LineCollection,
+  SelfIntersection,
+  SnapResult,
+  SubdivisionLayout,
+  SpatialIndexNode,
+  InfrastructureCollection,
+  FenceCollection,
+  FenceMaterial,
+  FenceLengthSummary,
+  PaddockRecords
+} from './types';
+import { buildSpatialIndex, searchSpatialIndex } from './spatialIndex';
 
 // Check if point is inside polygon using ray casting algorithm
 export const isPointInPolygon = (point: number[], polygon: number[][]): boolean => {
@@ -17,17 +34,319 @@ export const isPointInPolygon = (point: number[], polygon: number[][]): boolean
   return inside;
 };
 
-// Check if paddock is within farm boundary
-export const isPaddockWithinFarm = (paddockCoords: number[][], farmCoords: number[][]): boolean => {
-  // Check if all paddock vertices are within farm boundary
-  for (const coord of paddockCoords) {
-    if (!isPointInPolygon(coord, farmCoords)) {
+// Check if point is inside a polygon given as rings (outer ring first, then holes)
+export const isPointInPolygonRings = (point: number[], rings: number[][][]): boolean => {
+  const [outer, ...holes] = rings;
+  if (!outer || !isPointInPolygon(point, outer)) return false;
+  return !holes.some(hole => isPointInPolygon(point, hole));
+};
+
+// Tolerance for treating a point as lying on a line, in degrees (~0.1 mm)
+const BOUNDARY_EPSILON = 1e-9;
+// Tolerance on the 0..1 segment parameter when intersecting edges
+const SEGMENT_PARAM_EPSILON = 1e-9;
+
+const crossProduct = (o: number[], a: number[], b: number[]): number => {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+};
+
+// Check if point lies on the segment a-b (within BOUNDARY_EPSILON)
+export const isPointOnSegment = (point: number[], a: number[], b: number[]): boolean => {
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  if (length === 0) {
+    return Math.hypot(point[0] - a[0], point[1] - a[1]) <= BOUNDARY_EPSILON;
+  }
+
+  // Perpendicular distance to the line, then make sure we're between the endpoints
+  if (Math.abs(crossProduct(a, b, point)) / length > BOUNDARY_EPSILON) return false;
+
+  const t = ((point[0] - a[0]) * (b[0] - a[0]) + (point[1] - a[1]) * (b[1] - a[1])) / (length * length);
+  return t >= -BOUNDARY_EPSILON / length && t <= 1 + BOUNDARY_EPSILON / length;
+};
+
+// Check if point lies exactly on the polygon's boundary
+export const isPointOnPolygonBoundary = (point: number[], polygon: number[][]): boolean => {
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (isPointOnSegment(point, polygon[j], polygon[i])) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Check if point is inside the polygon or on its boundary
+export const isPointInOrOnPolygon = (point: number[], polygon: number[][]): boolean => {
+  return isPointOnPolygonBoundary(point, polygon) || isPointInPolygon(point, polygon);
+};
+
+/**
+ * Find where segment p1-p2 meets the polygon boundary, as parameters along p1-p2
+ * Returns null when the segment properly crosses an edge (interiors intersect
+ * transversally), which means it must leave the polygon.
+ */
+const getBoundaryContactParams = (p1: number[], p2: number[], polygon: number[][]): number[] | null => {
+  const params: number[] = [];
+  const r = [p2[0] - p1[0], p2[1] - p1[1]];
+  const rLengthSq = r[0] * r[0] + r[1] * r[1];
+  if (rLengthSq === 0) return params;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const q1 = polygon[j];
+    const q2 = polygon[i];
+    const s = [q2[0] - q1[0], q2[1] - q1[1]];
+    const qp = [q1[0] - p1[0], q1[1] - p1[1]];
+    const denominator = r[0] * s[1] - r[1] * s[0];
+    const sLength = Math.hypot(s[0], s[1]);
+
+    if (sLength === 0) continue;
+
+    if (Math.abs(denominator) <= BOUNDARY_EPSILON * Math.sqrt(rLengthSq) * sLength) {
+      // Parallel - only collinear overlaps matter, record where the overlap starts and ends
+      if (isPointOnSegment(q1, p1, p2)) params.push((qp[0] * r[0] + qp[1] * r[1]) / rLengthSq);
+      if (isPointOnSegment(q2, p1, p2)) {
+        params.push(((q2[0] - p1[0]) * r[0] + (q2[1] - p1[1]) * r[1]) / rLengthSq);
+      }
+      continue;
+    }
+
+    const t = (qp[0] * s[1] - qp[1] * s[0]) / denominator;
+    const u = (qp[0] * r[1] - qp[1] * r[0]) / denominator;
+
+    if (t < -SEGMENT_PARAM_EPSILON || t > 1 + SEGMENT_PARAM_EPSILON ||
+        u < -SEGMENT_PARAM_EPSILON || u > 1 + SEGMENT_PARAM_EPSILON) {
+      continue;
+    }
+
+    const isInteriorT = t > SEGMENT_PARAM_EPSILON && t < 1 - SEGMENT_PARAM_EPSILON;
+    const isInteriorU = u > SEGMENT_PARAM_EPSILON && u < 1 - SEGMENT_PARAM_EPSILON;
+    if (isInteriorT && isInteriorU) {
+      return null;
+    }
+
+    params.push(t);
+  }
+
+  return params;
+};
+
+/**
+ * Check if one ring lies completely within another (boundaries may touch)
+ * Every vertex must be inside or on the outer ring, no edge may cross the
+ * outer boundary, and each piece of an edge between boundary contacts must
+ * stay inside - this catches edges cutting across the notch of concave
+ * (L- or U-shaped) boundaries even when all vertices are inside.
+ */
+export const isPolygonWithinPolygon = (innerCoords: number[][], outerCoords: number[][]): boolean => {
+  if (innerCoords.length === 0 || outerCoords.length < 3) return false;
+
+  for (const coord of innerCoords) {
+    if (!isPointInOrOnPolygon(coord, outerCoords)) {
       return false;
     }
   }
+
+  for (let i = 0; i < innerCoords.length; i++) {
+    const p1 = innerCoords[i];
+    const p2 = innerCoords[(i + 1) % innerCoords.length];
+
+    const contacts = getBoundaryContactParams(p1, p2, outerCoords);
+    if (contacts === null) return false;
+
+    const params = [0, 1, ...contacts.map(t => Math.max(0, Math.min(1, t)))].sort((a, b) => a - b);
+    for (let k = 1; k < params.length; k++) {
+      if (params[k] - params[k - 1] <= SEGMENT_PARAM_EPSILON) continue;
+
+      const mid = (params[k] + params[k - 1]) / 2;
+      const midpoint = [p1[0] + (p2[0] - p1[0]) * mid, p1[1] + (p2[1] - p1[1]) * mid];
+      if (!isPointInOrOnPolygon(midpoint, outerCoords)) {
+        return false;
+      }
+    }
+  }
+
   return true;
 };
 
+/**
+ * Find where segments a1-a2 and b1-b2 meet, including touching endpoints
+ * For collinear overlaps the start of the shared part is returned.
+ */
+const getSegmentIntersection = (a1: number[], a2: number[], b1: number[], b2: number[]): number[] | null => {
+  const r = [a2[0] - a1[0], a2[1] - a1[1]];
+  const s = [b2[0] - b1[0], b2[1] - b1[1]];
+  const qp = [b1[0] - a1[0], b1[1] - a1[1]];
+  const denominator = r[0] * s[1] - r[1] * s[0];
+  const rLength = Math.hypot(r[0], r[1]);
+  const sLength = Math.hypot(s[0], s[1]);
+
+  if (rLength === 0 || sLength === 0) return null;
+
+  if (Math.abs(denominator) <= BOUNDARY_EPSILON * rLength * sLength) {
+    // Parallel - collinear segments intersect if either contains an endpoint of the other
+    for (const point of [b1, b2]) {
+      if (isPointOnSegment(point, a1, a2)) return point;
+    }
+    for (const point of [a1, a2]) {
+      if (isPointOnSegment(point, b1, b2)) return point;
+    }
+    return null;
+  }
+
+  const t = (qp[0] * s[1] - qp[1] * s[0]) / denominator;
+  const u = (qp[0] * r[1] - qp[1] * r[0]) / denominator;
+
+  if (t < -SEGMENT_PARAM_EPSILON || t > 1 + SEGMENT_PARAM_EPSILON ||
+      u < -SEGMENT_PARAM_EPSILON || u > 1 + SEGMENT_PARAM_EPSILON) {
+    return null;
+  }
+
+  return [a1[0] + r[0] * t, a1[1] + r[1] * t];
+};
+
+// Drop the repeated closing coordinate if the ring has one
+export const toOpenRing = (coordinates: number[][]): number[][] => {
+  if (coordinates.length < 2) return coordinates;
+  const first = coordinates[0];
+  const last = coordinates[coordinates.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? coordinates.slice(0, -1) : coordinates;
+};
+
+/**
+ * Find every place a ring crosses or touches itself
+ * Edge i runs from vertex i to vertex i + 1 (wrapping back to vertex 0).
+ * Neighbouring edges only count when they fold back over each other.
+ */
+export const findSelfIntersections = (coordinates: number[][]): SelfIntersection[] => {
+  const ring = toOpenRing(coordinates);
+  const count = ring.length;
+  const intersections: SelfIntersection[] = [];
+  if (count < 3) return intersections;
+
+  for (let i = 0; i < count; i++) {
+    const a1 = ring[i];
+    const a2 = ring[(i + 1) % count];
+
+    for (let j = i + 1; j < count; j++) {
+      const b1 = ring[j];
+      const b2 = ring[(j + 1) % count];
+      const isAdjacent = j === i + 1 || (i === 0 && j === count - 1);
+
+      if (isAdjacent) {
+        // Shared vertex is expected - only a spike doubling back on itself is invalid
+        const shared = j === i + 1 ? a2 : a1;
+        const otherA = j === i + 1 ? a1 : a2;
+        const otherB = j === i + 1 ? b2 : b1;
+        const isCollinear = Math.abs(crossProduct(shared, otherA, otherB)) <=
+          BOUNDARY_EPSILON * Math.hypot(otherA[0] - shared[0], otherA[1] - shared[1]) *
+          Math.hypot(otherB[0] - shared[0], otherB[1] - shared[1]);
+        const isFoldedBack = (otherA[0] - shared[0]) * (otherB[0] - shared[0]) +
+          (otherA[1] - shared[1]) * (otherB[1] - shared[1]) > 0;
+
+        if (isCollinear && isFoldedBack) {
+          intersections.push({ segments: [i, j], point: shared });
+        }
+        continue;
+      }
+
+      const point = getSegmentIntersection(a1, a2, b1, b2);
+      if (point) {
+        intersections.push({ segments: [i, j], point });
+      }
+    }
+  }
+
+  return intersections;
+};
+
+/**
+ * Repair a self-intersecting ring by reordering its vertices by angle around
+ * their average point. Keeps every vertex; the result is only simple when the
+ * shape is star-shaped around that point, so null is returned when it still crosses itself.
+ */
+export const reorderPolygonPoints = (coordinates: number[][]): number[][] | null => {
+  const ring = toOpenRing(coordinates);
+  const [centerX, centerY] = getVertexAverage(ring);
+  const angleOf = (coord: number[]) => Math.atan2(coord[1] - centerY, coord[0] - centerX);
+
+  // Start from the original first vertex so the drawing order feels familiar
+  const startAngle = angleOf(ring[0]);
+  const normalised = (coord: number[]) => (angleOf(coord) - startAngle + 2 * Math.PI) % (2 * Math.PI);
+
+  const reordered = [...ring].sort((a, b) => normalised(a) - normalised(b));
+  return findSelfIntersections(reordered).length === 0 ? reordered : null;
+};
+
+/**
+ * Repair a self-intersecting ring by splitting it at its crossings
+ * Returns each resulting simple piece as polygon rings, largest first.
+ */
+export const splitSelfIntersectingPolygon = (coordinates: number[][]): number[][][][] => {
+  const pieces = polygonClipping.union(toClippingPolygon([toOpenRing(coordinates)]));
+  return pieces.sort((a, b) => calculatePolygonRingsArea(b) - calculatePolygonRingsArea(a));
+};
+
+/**
+ * Create GeoJSON line segments for the edges involved in self-intersections
+ */
+export const createSelfIntersectionGeoJSON = (
+  coordinates: number[][],
+  intersections: SelfIntersection[]
+): LineCollection => {
+  const ring = toOpenRing(coordinates);
+  const segmentIndices = Array.from(new Set(intersections.flatMap(intersection => intersection.segments)));
+
+  return {
+    type: 'FeatureCollection',
+    features: segmentIndices.map(index => ({
+      type: 'Feature',
+      properties: { segmentIndex: index },
+      geometry: {
+        type: 'LineString',
+        coordinates: [ring[index], ring[(index + 1) % ring.length]]
+      }
+    }))
+  };
+};
+
+/**
+ * Check if paddock is within farm boundary
+ * Both are given as rings; the paddock must sit inside the farm's outer ring
+ * and must not cover any of the farm's holes.
+ */
+export const isPaddockWithinFarm = (paddockRings: number[][][], farmRings: number[][][]): boolean => {
+  const [farmOuter, ...farmHoles] = farmRings;
+  if (!isPolygonWithinPolygon(paddockRings[0], farmOuter)) return false;
+
+  return farmHoles.every(hole =>
+    calculateMultiPolygonArea(intersectPolygons(paddockRings, [hole])) <= MIN_OVERLAP_AREA
+  );
+};
+
+/**
+ * Check a polygon's rings form a valid shape: no ring crosses itself, every
+ * hole lies inside the outer ring and holes do not overlap each other
+ */
+export const isValidPolygonRings = (rings: number[][][]): boolean => {
+  const [outer, ...holes] = rings;
+  if (!outer || findSelfIntersections(outer).length > 0) return false;
+
+  return holes.every((hole, index) =>
+    findSelfIntersections(hole).length === 0 &&
+    isPolygonWithinPolygon(hole, outer) &&
+    holes.slice(index + 1).every(other =>
+      calculateMultiPolygonArea(intersectPolygons([hole], [other])) <= MIN_OVERLAP_AREA
+    )
+  );
+};
+
+/**
+ * Check a new hole can be cut from a polygon: it must be a simple ring inside
+ * the outer ring that does not overlap the polygon's existing holes
+ */
+export const canAddHoleToPolygon = (hole: number[][], rings: number[][][]): boolean => {
+  return isValidPolygonRings([...rings, hole]);
+};
+
 // Get farm boundaries only from polygon collection
 export const getFarmBoundaries = (polygons: PolygonCollection): PolygonFeature[] => {
   return polygons.features.filter(feature => 
@@ -44,6 +363,17 @@ export const getPaddocksForFarm = (polygons: PolygonCollection, farmId: string):
   ) as PolygonFeature[];
 };
 
+// Get a farm boundary together with its paddocks
+export const getFarmWithPaddocks = (polygons: PolygonCollection, farmId: string): PolygonCollection => {
+  return {
+    ...polygons,
+    features: polygons.features.filter(feature =>
+      feature.properties &&
+      (feature.properties.id === farmId || feature.properties.parentId === farmId)
+    )
+  };
+};
+
 // Get selected polygon vertices (excluding closing point)
 export const getPolygonVertices = (polygons: PolygonCollection, polygonId: string): number[][] => {
   const selectedPolygon = polygons.features.find(
@@ -58,11 +388,44 @@ export const getPolygonVertices = (polygons: PolygonCollection, polygonId: strin
   return [];
 };
 
+// Get selected polygon hole vertices, one array per hole (excluding closing points)
+export const getPolygonHoleVertices = (polygons: PolygonCollection, polygonId: string): number[][][] => {
+  const selectedPolygon = polygons.features.find(
+    feature => feature.properties && feature.properties.id === polygonId
+  );
+
+  if (selectedPolygon) {
+    return selectedPolygon.geometry.coordinates.slice(1).map(hole => hole.slice(0, -1));
+  }
+
+  return [];
+};
+
 // Create a closed polygon by adding first point at the end
 export const createClosedPolygon = (coordinates: number[][]): number[][] => {
   return [...coordinates, coordinates[0]];
 };
 
+// Get the midpoint of each edge of a closed ring, where new vertices can be inserted
+export const getRingMidpoints = (ring: number[][]): number[][] => {
+  return ring.slice(1).map((point, index) => [
+    (ring[index][0] + point[0]) / 2,
+    (ring[index][1] + point[1]) / 2
+  ]);
+};
+
+// Insert a vertex into a closed ring along the edge starting at edgeIndex, keeping it closed
+export const insertRingVertex = (ring: number[][], edgeIndex: number, coordinate: number[]): number[][] => {
+  const vertices = ring.slice(0, -1);
+  return createClosedPolygon([...vertices.slice(0, edgeIndex + 1), coordinate, ...vertices.slice(edgeIndex + 1)]);
+};
+
+// Remove a vertex from a closed ring, keeping it closed; null if fewer than 3 vertices would remain
+export const removeRingVertex = (ring: number[][], vertexIndex: number): number[][] | null => {
+  const vertices = ring.slice(0, -1).filter((_, index) => index !== vertexIndex);
+  return vertices.length >= 3 ? createClosedPolygon(vertices) : null;
+};
+
 /**
  * Extract initials from a paddock name for map display
  * Example: "East Paddock" -> "E P", "North East Field" -> "N E F"
@@ -101,10 +464,8 @@ export const addInitialsToPolygons = (polygons: PolygonCollection): PolygonColle
   };
 };
 
-/**
- * Calculate the centroid of a polygon for positioning annotations
- */
-export const getPolygonCentroid = (coordinates: number[][]): number[] => {
+// Average of a ring's vertices; only meaningful as a rough centre
+const getVertexAverage = (coordinates: number[][]): number[] => {
   if (coordinates.length === 0) return [0, 0];
   
   let sumX = 0;
@@ -126,85 +487,1289 @@ export const getPolygonCentroid = (coordinates: number[][]): number[] => {
 };
 
 /**
- * Generate mock livestock data for paddocks
+ * Calculate the area-weighted centroid of a polygon ring
+ * May fall outside concave shapes; use getPolygonVisualCenter for placing markers.
  */
-export const generateMockLivestockData = (polygons: PolygonCollection): import('./types').LivestockData[] => {
-  const livestockTypes: import('./types').LivestockType[] = ['cattle', 'sheep']; // Only cattle and sheep
-  const livestockStatuses: import('./types').LivestockStatus[] = ['healthy', 'attention', 'breeding', 'medication'];
-  
-  return polygons.features
-    .filter(feature => feature.properties?.type === 'paddock')
-    .map(feature => {
-      const randomCount = Math.floor(Math.random() * 600) + 20; // 20-620 animals
-      const randomType = livestockTypes[Math.floor(Math.random() * livestockTypes.length)];
-      const randomStatus = livestockStatuses[Math.floor(Math.random() * livestockStatuses.length)];
-      
-      return {
-        paddockId: feature.properties!.id,
-        count: randomCount,
-        type: randomType,
-        status: randomStatus,
-        lastUpdated: new Date().toISOString()
-      };
-    });
+export const getPolygonCentroid = (coordinates: number[][]): number[] => {
+  return getPolygonRingsCentroid([coordinates]);
 };
 
 /**
- * Create livestock annotations from paddock polygons and livestock data
+ * Calculate the area-weighted centroid of a polygon given as rings
+ * Holes are subtracted, so the result moves away from excluded areas.
+ * Falls back to the vertex average for degenerate (zero-area) shapes.
  */
-export const createLivestockAnnotations = (
-  polygons: PolygonCollection, 
-  livestockData: import('./types').LivestockData[]
-): import('./types').LivestockAnnotation[] => {
-  const livestockMap = new Map(livestockData.map(data => [data.paddockId, data]));
-  
-  return polygons.features
-    .filter(feature => feature.properties?.type === 'paddock')
-    .map(feature => {
-      const paddockId = feature.properties!.id;
-      const livestock = livestockMap.get(paddockId);
-      const centroid = getPolygonCentroid(feature.geometry.coordinates[0]);
-      
-      if (livestock) {
-        return {
-          id: `livestock_${paddockId}`,
-          paddockId,
-          coordinates: centroid,
-          count: livestock.count,
-          type: livestock.type,
-          status: livestock.status
-        };
-      }
-      
-      // Default if no livestock data
-      return {
-        id: `livestock_${paddockId}`,
-        paddockId,
-        coordinates: centroid,
-        count: 0,
-        type: 'cattle' as import('./types').LivestockType,
-        status: 'healthy' as import('./types').LivestockStatus
-      };
-    });
+export const getPolygonRingsCentroid = (rings: number[][][]): number[] => {
+  if (rings.length === 0 || rings[0].length === 0) return [0, 0];
+
+  // Work relative to the first vertex to keep the shoelace sums well conditioned
+  const [originX, originY] = rings[0][0];
+  let weightedX = 0;
+  let weightedY = 0;
+  let totalArea = 0;
+
+  rings.forEach((ring, ringIndex) => {
+    let ringArea = 0;
+    let ringX = 0;
+    let ringY = 0;
+
+    for (let i = 0; i < ring.length; i++) {
+      const x1 = ring[i][0] - originX;
+      const y1 = ring[i][1] - originY;
+      const x2 = ring[(i + 1) % ring.length][0] - originX;
+      const y2 = ring[(i + 1) % ring.length][1] - originY;
+      const cross = x1 * y2 - x2 * y1;
+      ringArea += cross;
+      ringX += (x1 + x2) * cross;
+      ringY += (y1 + y2) * cross;
+    }
+
+    // Outer ring adds area, holes remove it, whatever their winding
+    const sign = (ringIndex === 0 ? 1 : -1) * Math.sign(ringArea);
+    totalArea += sign * ringArea / 2;
+    weightedX += sign * ringX / 6;
+    weightedY += sign * ringY / 6;
+  });
+
+  if (Math.abs(totalArea) < 1e-18) return getVertexAverage(rings[0]);
+
+  return [originX + weightedX / totalArea, originY + weightedY / totalArea];
+};
+
+// Approximate metres per degree, used to search in a locally undistorted plane
+const METRES_PER_DEGREE_LAT = 110540;
+const METRES_PER_DEGREE_LON = 111320;
+
+// Squared distance from a point to a segment in the plane
+const getSegmentDistanceSquared = (point: number[], start: number[], end: number[]): number => {
+  let [x, y] = start;
+  let dx = end[0] - x;
+  let dy = end[1] - y;
+
+  if (dx !== 0 || dy !== 0) {
+    const t = ((point[0] - x) * dx + (point[1] - y) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      [x, y] = end;
+    } else if (t > 0) {
+      x += dx * t;
+      y += dy * t;
+    }
+  }
+
+  dx = point[0] - x;
+  dy = point[1] - y;
+  return dx * dx + dy * dy;
+};
+
+// Distance from a point to the nearest edge, negative when the point is outside the polygon
+const getSignedDistanceToRings = (point: number[], rings: number[][][]): number => {
+  let minDistanceSquared = Infinity;
+
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      minDistanceSquared = Math.min(minDistanceSquared, getSegmentDistanceSquared(point, ring[i], ring[j]));
+    }
+  });
+
+  const distance = Math.sqrt(minDistanceSquared);
+  return isPointInPolygonRings(point, rings) ? distance : -distance;
+};
+
+interface LabelCell {
+  x: number;
+  y: number;
+  half: number; // Half the cell size
+  distance: number; // Signed distance from the cell centre to the polygon
+  max: number; // Best distance any point in the cell could reach
+}
+
+const createLabelCell = (x: number, y: number, half: number, rings: number[][][]): LabelCell => {
+  const distance = getSignedDistanceToRings([x, y], rings);
+  return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+};
+
+// Binary max-heap on LabelCell.max, so the most promising cell is searched first
+const pushLabelCell = (heap: LabelCell[], cell: LabelCell) => {
+  heap.push(cell);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].max >= heap[index].max) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+};
+
+const popLabelCell = (heap: LabelCell[]): LabelCell => {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let largest = index;
+      if (left < heap.length && heap[left].max > heap[largest].max) largest = left;
+      if (right < heap.length && heap[right].max > heap[largest].max) largest = right;
+      if (largest === index) break;
+      [heap[largest], heap[index]] = [heap[index], heap[largest]];
+      index = largest;
+    }
+  }
+  return top;
 };
 
 /**
- * Generate livestock density heatmap data based on paddock livestock data
+ * Find the visual center (pole of inaccessibility) of a polygon given as rings:
+ * the interior point furthest from any edge, found to within precision metres.
+ * Always returns a point inside the polygon unless it has no area.
  */
-export const generateHeatmapData = (polygons: PolygonCollection, livestockData: import('./types').LivestockData[]): import('./types').HeatmapDataPoint[] => {
-  const farmBoundaries = getFarmBoundaries(polygons);
-  const paddocks = polygons.features.filter(f => f.properties?.type === 'paddock');
-  
-  if (farmBoundaries.length === 0 || paddocks.length === 0) return [];
+export const getPolygonVisualCenter = (rings: number[][][], precision: number = 1): number[] => {
+  if (rings.length === 0 || rings[0].length === 0) return [0, 0];
+
+  // Project to local metres so distances are the same in every direction
+  const [originLon, originLat] = rings[0][0];
+  const scaleX = METRES_PER_DEGREE_LON * Math.cos(toRadians(originLat));
+  const scaleY = METRES_PER_DEGREE_LAT;
+  const toLocal = (coord: number[]) => [(coord[0] - originLon) * scaleX, (coord[1] - originLat) * scaleY];
+  const toLngLat = (point: number[]) => [originLon + point[0] / scaleX, originLat + point[1] / scaleY];
+
+  const localRings = rings.map(ring => ring.map(toLocal));
+  const xs = localRings[0].map(point => point[0]);
+  const ys = localRings[0].map(point => point[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const cellSize = Math.min(width, height);
+
+  const centroid = getPolygonRingsCentroid(rings);
+  if (cellSize === 0) return centroid;
+
+  // Cover the bounding box with square cells, then refine the most promising ones
+  const heap: LabelCell[] = [];
+  const half = cellSize / 2;
+  for (let x = minX; x < minX + width; x += cellSize) {
+    for (let y = minY; y < minY + height; y += cellSize) {
+      pushLabelCell(heap, createLabelCell(x + half, y + half, half, localRings));
+    }
+  }
+
+  const localCentroid = toLocal(centroid);
+  let best = createLabelCell(localCentroid[0], localCentroid[1], 0, localRings);
+  const boxCenter = createLabelCell(minX + width / 2, minY + height / 2, 0, localRings);
+  if (boxCenter.distance > best.distance) best = boxCenter;
+
+  while (heap.length > 0) {
+    const cell = popLabelCell(heap);
+
+    if (cell.distance > best.distance) best = cell;
+
+    // Skip cells that cannot beat the current best by more than the precision
+    if (cell.max - best.distance <= precision) continue;
+
+    const quarter = cell.half / 2;
+    pushLabelCell(heap, createLabelCell(cell.x - quarter, cell.y - quarter, quarter, localRings));
+    pushLabelCell(heap, createLabelCell(cell.x + quarter, cell.y - quarter, quarter, localRings));
+    pushLabelCell(heap, createLabelCell(cell.x - quarter, cell.y + quarter, quarter, localRings));
+    pushLabelCell(heap, createLabelCell(cell.x + quarter, cell.y + quarter, quarter, localRings));
+  }
+
+  const center = toLngLat([best.x, best.y]);
+
+  // Guard against rounding on the way back to degrees for very thin shapes
+  return !isPointInPolygonRings(center, rings) && isPointInPolygonRings(centroid, rings) ? centroid : center;
+};
+
+/**
+ * Create label points at the visual center of each polygon, carrying its properties
+ */
+export const createPolygonLabelGeoJSON = (polygons: PolygonCollection): PointCollection => {
+  return {
+    type: 'FeatureCollection',
+    features: polygons.features.map(feature => ({
+      type: 'Feature',
+      properties: feature.properties,
+      geometry: {
+        type: 'Point',
+        coordinates: getPolygonVisualCenter(feature.geometry.coordinates)
+      }
+    }))
+  };
+};
+
+// WGS84 ellipsoid parameters
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const WGS84_E = Math.sqrt(WGS84_E2);
+
+const SQUARE_METRES_PER_HECTARE = 10000;
+const SQUARE_METRES_PER_ACRE = 4046.8564224;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Authalic "q" function used to map geodetic latitude onto the equal-area sphere
+const authalicQ = (sinPhi: number): number => {
+  const eSinPhi = WGS84_E * sinPhi;
+  return (1 - WGS84_E2) * (
+    sinPhi / (1 - eSinPhi * eSinPhi) -
+    Math.log((1 - eSinPhi) / (1 + eSinPhi)) / (2 * WGS84_E)
+  );
+};
+
+const AUTHALIC_QP = authalicQ(1);
+const AUTHALIC_RADIUS = WGS84_A * Math.sqrt(AUTHALIC_QP / 2);
+
+const toAuthalicLatitude = (latitude: number): number => {
+  const ratio = authalicQ(Math.sin(toRadians(latitude))) / AUTHALIC_QP;
+  return Math.asin(Math.max(-1, Math.min(1, ratio)));
+};
+
+/**
+ * Calculate the geodesic area of a polygon ring in square metres.
+ * Latitudes are mapped onto the WGS84 authalic (equal-area) sphere and the
+ * spherical excess of the ring is summed edge by edge, so the result matches
+ * the ellipsoidal area to well below a square metre at paddock scale.
+ */
+export const calculatePolygonArea = (coordinates: number[][]): number => {
+  if (coordinates.length < 3) return 0;
+
+  let excess = 0;
+
+  for (let i = 0; i < coordinates.length; i++) {
+    const [lon1, lat1] = coordinates[i];
+    const [lon2, lat2] = coordinates[(i + 1) % coordinates.length];
+
+    let deltaLon = toRadians(lon2 - lon1);
+    // Take the short way round when an edge crosses the antimeridian
+    if (deltaLon > Math.PI) deltaLon -= 2 * Math.PI;
+    if (deltaLon < -Math.PI) deltaLon += 2 * Math.PI;
+
+    const t1 = Math.tan(toAuthalicLatitude(lat1) / 2);
+    const t2 = Math.tan(toAuthalicLatitude(lat2) / 2);
+
+    excess += 2 * Math.atan2(Math.tan(deltaLon / 2) * (t1 + t2), 1 + t1 * t2);
+  }
+
+  return Math.abs(excess) * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+};
+
+/**
+ * Calculate the geodesic distance between two [lon, lat] points in metres
+ * using Vincenty's inverse formula on the WGS84 ellipsoid
+ */
+export const calculateGeodesicDistance = (from: number[], to: number[]): number => {
+  const L = toRadians(to[0] - from[0]);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(from[1])));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(to[1])));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let sigma = 0;
+  let cosSqAlpha = 1;
+  let cos2SigmaM = 0;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      Math.pow(cosU2 * sinLambda, 2) +
+      Math.pow(cosU1 * sinU2 - sinU1 * cosU2 * cosLambda, 2)
+    );
+
+    if (sinSigma === 0) return 0; // Coincident points
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = cosU1 * cosU2 * sinLambda / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Equatorial lines have cosSqAlpha = 0
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - 2 * sinU1 * sinU2 / cosSqAlpha : 0;
+
+    const C = WGS84_F / 16 * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    const previousLambda = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha * (
+      sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM))
+    );
+
+    if (Math.abs(lambda - previousLambda) < 1e-12) {
+      const uSq = cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+      const A = 1 + uSq / 16384 * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = uSq / 1024 * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = B * sinSigma * (
+        cos2SigmaM + B / 4 * (
+          cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+        )
+      );
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+
+  // Vincenty does not converge for nearly antipodal points - fall back to a great circle
+  return AUTHALIC_RADIUS * sigma;
+};
+
+/**
+ * Calculate the geodesic perimeter of a polygon ring in metres
+ */
+export const calculatePolygonPerimeter = (coordinates: number[][]): number => {
+  if (coordinates.length < 2) return 0;
+
+  let perimeter = 0;
+  for (let i = 0; i < coordinates.length; i++) {
+    perimeter += calculateGeodesicDistance(coordinates[i], coordinates[(i + 1) % coordinates.length]);
+  }
+  return perimeter;
+};
+
+/**
+ * Calculate the geodesic length of an open line in metres
+ */
+export const calculateLineLength = (coordinates: number[][]): number => {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    length += calculateGeodesicDistance(coordinates[i - 1], coordinates[i]);
+  }
+  return length;
+};
+
+/**
+ * Initial bearing from one [lon, lat] point towards another, in degrees clockwise
+ * from true north (0-360). Uses the great circle, which is well within a tenth of
+ * a degree of the ellipsoidal bearing at paddock scale.
+ */
+export const calculateBearing = (from: number[], to: number[]): number => {
+  const lat1 = toRadians(from[1]);
+  const lat2 = toRadians(to[1]);
+  const deltaLon = toRadians(to[0] - from[0]);
+
+  const y = Math.sin(deltaLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+/**
+ * Total fence length per material for one farm (or all fences), longest first
+ */
+export const summarizeFenceLengths = (fences: FenceCollection, farmId?: string): FenceLengthSummary[] => {
+  const totals = new Map<FenceMaterial, FenceLengthSummary>();
+
+  fences.features
+    .filter(fence => !farmId || fence.properties.farmId === farmId)
+    .forEach(fence => {
+      const { material, electric } = fence.properties;
+      const length = calculateLineLength(fence.geometry.coordinates);
+      const total = totals.get(material) || { material, length: 0, electricLength: 0, count: 0 };
+
+      totals.set(material, {
+        material,
+        length: total.length + length,
+        electricLength: total.electricLength + (electric ? length : 0),
+        count: total.count + 1
+      });
+    });
+
+  return Array.from(totals.values()).sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Calculate the geodesic area of a polygon given as rings, with holes subtracted
+ */
+export const calculatePolygonRingsArea = (rings: number[][][]): number => {
+  const [outer, ...holes] = rings;
+  if (!outer) return 0;
+  return calculatePolygonArea(outer) - holes.reduce((total, hole) => total + calculatePolygonArea(hole), 0);
+};
+
+/**
+ * Calculate the total boundary length of a polygon given as rings, holes included
+ */
+export const calculatePolygonRingsPerimeter = (rings: number[][][]): number => {
+  return rings.reduce((total, ring) => total + calculatePolygonPerimeter(ring), 0);
+};
+
+/**
+ * Return a copy of the feature with its area (m²) and perimeter (m) properties refreshed
+ */
+export const addMeasurementsToFeature = <T extends PolygonFeature>(feature: T): T => {
+  return {
+    ...feature,
+    properties: {
+      ...feature.properties,
+      area: calculatePolygonRingsArea(feature.geometry.coordinates),
+      perimeter: calculatePolygonRingsPerimeter(feature.geometry.coordinates)
+    }
+  };
+};
+
+/**
+ * Format an area in square metres as hectares and acres
+ * Example: 123456 -> "12.35 ha (30.51 ac)"
+ */
+export const formatArea = (squareMetres: number): string => {
+  const hectares = squareMetres / SQUARE_METRES_PER_HECTARE;
+  const acres = squareMetres / SQUARE_METRES_PER_ACRE;
+  return `${hectares.toFixed(2)} ha (${acres.toFixed(2)} ac)`;
+};
+
+/**
+ * Format a distance in metres, switching to kilometres above 1 km
+ * Example: 845.2 -> "845 m", 2450 -> "2.45 km"
+ */
+export const formatDistance = (metres: number): string => {
+  if (metres >= 1000) {
+    return `${(metres / 1000).toFixed(2)} km`;
+  }
+  return `${Math.round(metres)} m`;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Format a bearing with its nearest compass point
+ * Example: 47.3 -> "047° NE"
+ */
+export const formatBearing = (degrees: number): string => {
+  const rounded = Math.round(degrees) % 360;
+  const compassPoint = COMPASS_POINTS[Math.round(rounded / 45) % COMPASS_POINTS.length];
+  return `${String(rounded).padStart(3, '0')}° ${compassPoint}`;
+};
+
+/**
+ * Add a compact area label property to farm and paddock features for map display
+ */
+export const addAreaLabelsToPolygons = (polygons: PolygonCollection): PolygonCollection => {
+  return {
+    ...polygons,
+    features: polygons.features.map(feature => {
+      if (!feature.properties) return feature;
+
+      const area = typeof feature.properties.area === 'number'
+        ? feature.properties.area
+        : calculatePolygonRingsArea(feature.geometry.coordinates);
+
+      return {
+        ...feature,
+        properties: {
+          ...feature.properties,
+          areaLabel: `${(area / SQUARE_METRES_PER_HECTARE).toFixed(2)} ha`
+        }
+      };
+    })
+  };
+};
+
+/**
+ * Get the [minLon, minLat, maxLon, maxLat] bounding box of a set of coordinates
+ */
+export const getBoundingBox = (coordinates: number[][]): number[] => {
+  const lons = coordinates.map(coord => coord[0]);
+  const lats = coordinates.map(coord => coord[1]);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+};
+
+/**
+ * Index polygon features by their outer ring's bounding box for fast hit testing
+ */
+export const createFeatureIndex = (polygons: PolygonCollection): SpatialIndexNode<PolygonFeature> => {
+  return buildSpatialIndex(
+    (polygons.features as PolygonFeature[])
+      .filter(feature => feature.properties && feature.geometry.coordinates[0]?.length > 0)
+      .map(feature => ({ bbox: getBoundingBox(feature.geometry.coordinates[0]), item: feature }))
+  );
+};
+
+/**
+ * Get every indexed feature containing the point, smallest area first
+ */
+export const findFeaturesAtPoint = (
+  index: SpatialIndexNode<PolygonFeature>,
+  point: number[]
+): PolygonFeature[] => {
+  const getArea = (feature: PolygonFeature) =>
+    feature.properties.area ?? calculatePolygonRingsArea(feature.geometry.coordinates);
+
+  return searchSpatialIndex(index, [point[0], point[1], point[0], point[1]])
+    .filter(feature => isPointInPolygonRings(point, feature.geometry.coordinates))
+    .sort((a, b) => getArea(a) - getArea(b));
+};
+
+/**
+ * Link each infrastructure point to the farm and paddock containing it.
+ * Returns the same collection when no link changes, so it can run on every polygon edit.
+ */
+export const assignInfrastructureToPaddocks = (
+  infrastructure: InfrastructureCollection,
+  index: SpatialIndexNode<PolygonFeature>
+): InfrastructureCollection => {
+  let changed = false;
+
+  const features = infrastructure.features.map(feature => {
+    const containing = findFeaturesAtPoint(index, feature.geometry.coordinates);
+    const farmId = containing.find(polygon => polygon.properties.type === 'farm')?.properties.id;
+    const paddockId = containing.find(polygon => polygon.properties.type === 'paddock')?.properties.id;
+
+    if (feature.properties.farmId === farmId && feature.properties.paddockId === paddockId) {
+      return feature;
+    }
+
+    changed = true;
+    return { ...feature, properties: { ...feature.properties, farmId, paddockId } };
+  });
+
+  return changed ? { ...infrastructure, features } : infrastructure;
+};
+
+/**
+ * Remove a paddock with its livestock records and setback zones, and relink the infrastructure inside it
+ * to whatever now contains it
+ */
+export const removePaddock = (records: PaddockRecords, paddockId: string): PaddockRecords => {
+  const completedPolygons = {
+    ...records.completedPolygons,
+    features: records.completedPolygons.features.filter(feature => !feature.properties || feature.properties.id !== paddockId)
+  };
+
+  return {
+    completedPolygons,
+    livestockData: records.livestockData.filter(data => data.paddockId !== paddockId),
+    setbackZones: {
+      ...records.setbackZones,
+      features: records.setbackZones.features.filter(zone => zone.properties?.sourceId !== paddockId)
+    },
+    infrastructure: assignInfrastructureToPaddocks(records.infrastructure, createFeatureIndex(completedPolygons))
+  };
+};
+
+// Ground distance per 512px Mapbox tile pixel at zoom 0 on the equator
+const METRES_PER_PIXEL_AT_ZOOM_0 = 78271.51696;
+
+/**
+ * Ground distance covered by one screen point at the given latitude and zoom level
+ */
+export const getMetresPerPixel = (latitude: number, zoom: number): number => {
+  return METRES_PER_PIXEL_AT_ZOOM_0 * Math.cos(toRadians(latitude)) / Math.pow(2, zoom);
+};
+
+/**
+ * Snap a point to the nearest vertex, or failing that the nearest edge, of the
+ * given features within toleranceMetres. Returns null when nothing is close enough.
+ */
+export const snapToFeatures = (
+  point: number[],
+  features: PolygonFeature[],
+  toleranceMetres: number,
+  excludeId?: string
+): SnapResult | null => {
+  // Measure in local metres around the point being snapped
+  const scaleX = METRES_PER_DEGREE_LON * Math.cos(toRadians(point[1]));
+  const scaleY = METRES_PER_DEGREE_LAT;
+  const toLocal = (coord: number[]) => [(coord[0] - point[0]) * scaleX, (coord[1] - point[1]) * scaleY];
+  const toleranceSquared = toleranceMetres * toleranceMetres;
+
+  let vertexSnap: SnapResult | null = null;
+  let vertexDistance = toleranceSquared;
+  let edgeSnap: SnapResult | null = null;
+  let edgeDistance = toleranceSquared;
+
+  features.forEach(feature => {
+    if (!feature.properties || feature.properties.id === excludeId) return;
+
+    feature.geometry.coordinates.forEach(ring => {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const start = toLocal(ring[i]);
+        const end = toLocal(ring[i + 1]);
+
+        const distance = start[0] * start[0] + start[1] * start[1];
+        if (distance <= vertexDistance) {
+          vertexDistance = distance;
+          vertexSnap = { coordinates: ring[i], type: 'vertex', featureId: feature.properties.id };
+        }
+
+        // Closest point on the edge to the origin, i.e. to the point being snapped
+        const dx = end[0] - start[0];
+        const dy = end[1] - start[1];
+        const lengthSquared = dx * dx + dy * dy;
+        if (lengthSquared === 0) continue;
+
+        const t = Math.max(0, Math.min(1, -(start[0] * dx + start[1] * dy) / lengthSquared));
+        const x = start[0] + dx * t;
+        const y = start[1] + dy * t;
+        if (x * x + y * y <= edgeDistance) {
+          edgeDistance = x * x + y * y;
+          edgeSnap = {
+            coordinates: [
+              ring[i][0] + (ring[i + 1][0] - ring[i][0]) * t,
+              ring[i][1] + (ring[i + 1][1] - ring[i][1]) * t,
+            ],
+            type: 'edge',
+            featureId: feature.properties.id,
+          };
+        }
+      }
+    });
+  });
+
+  return vertexSnap || edgeSnap;
+};
+
+const doBoundingBoxesIntersect = (a: number[], b: number[]): boolean => {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+};
+
+// Overlaps smaller than this are treated as a shared fence line, not a conflict
+export const MIN_OVERLAP_AREA = 1; // square metres
+
+const toClippingPolygon = (rings: number[][][]): ClippingPolygon => {
+  return rings.map(ring => ring.map(([lon, lat]) => [lon, lat] as [number, number]));
+};
+
+/**
+ * Intersect two polygons (each given as an array of rings)
+ * Returns a multipolygon, empty when the polygons do not overlap
+ */
+export const intersectPolygons = (subject: number[][][], clip: number[][][]): number[][][][] => {
+  return polygonClipping.intersection(toClippingPolygon(subject), toClippingPolygon(clip));
+};
+
+/**
+ * Subtract any number of polygons from the subject polygon
+ * Returns a multipolygon of whatever remains of the subject
+ */
+export const subtractPolygons = (subject: number[][][], clips: number[][][][]): number[][][][] => {
+  if (clips.length === 0) return [subject];
+  return polygonClipping.difference(toClippingPolygon(subject), ...clips.map(toClippingPolygon));
+};
+
+/**
+ * Union any number of polygons (each given as an array of rings)
+ * Returns a multipolygon; a single polygon means the inputs form one connected area
+ */
+export const unionPolygons = (polygons: number[][][][]): number[][][][] => {
+  if (polygons.length === 0) return [];
+  const [first, ...rest] = polygons.map(toClippingPolygon);
+  return polygonClipping.union(first, ...rest);
+};
+
+// Number of segments used to approximate the rounded corners of a buffer
+const BUFFER_CORNER_SEGMENTS = 16;
+
+// Union of a rectangle around every edge and a circle around every vertex, distanceMetres wide
+const createBoundaryStroke = (rings: number[][][], distanceMetres: number): number[][][][] => {
+  // Build the shapes in local metres around the first vertex, then map them back to degrees
+  const [originLon, originLat] = rings[0][0];
+  const scaleX = METRES_PER_DEGREE_LON * Math.cos(toRadians(originLat));
+  const toLocal = (coord: number[]) => [(coord[0] - originLon) * scaleX, (coord[1] - originLat) * METRES_PER_DEGREE_LAT];
+  const toLngLat = (x: number, y: number): [number, number] => [originLon + x / scaleX, originLat + y / METRES_PER_DEGREE_LAT];
+
+  const shapes: ClippingPolygon[] = [];
+  rings.forEach(ring => {
+    const local = toOpenRing(ring).map(toLocal);
+
+    local.forEach(([x, y], index) => {
+      const circle = Array.from({ length: BUFFER_CORNER_SEGMENTS + 1 }, (_, i) => {
+        const angle = 2 * Math.PI * (i % BUFFER_CORNER_SEGMENTS) / BUFFER_CORNER_SEGMENTS;
+        return toLngLat(x + distanceMetres * Math.cos(angle), y + distanceMetres * Math.sin(angle));
+      });
+      shapes.push([circle]);
+
+      const [nextX, nextY] = local[(index + 1) % local.length];
+      const length = Math.hypot(nextX - x, nextY - y);
+      if (length === 0) return;
+
+      const normalX = -(nextY - y) / length * distanceMetres;
+      const normalY = (nextX - x) / length * distanceMetres;
+      shapes.push([[
+        toLngLat(x + normalX, y + normalY),
+        toLngLat(nextX + normalX, nextY + normalY),
+        toLngLat(nextX - normalX, nextY - normalY),
+        toLngLat(x - normalX, y - normalY),
+        toLngLat(x + normalX, y + normalY),
+      ]]);
+    });
+  });
+
+  if (shapes.length === 0) return [];
+  const [first, ...rest] = shapes;
+  return polygonClipping.union(first, ...rest);
+};
+
+const toClippingMultiPolygon = (polygons: number[][][][]): ClippingPolygon[] => polygons.map(toClippingPolygon);
+
+/**
+ * Grow (positive distance) or shrink (negative distance) a polygon by a distance in metres.
+ * Returns a multipolygon; shrinking can split a shape or remove it entirely.
+ */
+export const bufferPolygon = (rings: number[][][], distanceMetres: number): number[][][][] => {
+  if (rings.length === 0 || rings[0].length < 3) return [];
+  if (distanceMetres === 0) return [rings];
+
+  const stroke = toClippingMultiPolygon(createBoundaryStroke(rings, Math.abs(distanceMetres)));
+  return distanceMetres > 0
+    ? polygonClipping.union(toClippingPolygon(rings), stroke)
+    : polygonClipping.difference(toClippingPolygon(rings), stroke);
+};
+
+/**
+ * Create a setback zone distanceMetres wide along a polygon's boundary:
+ * a band just inside it for negative distances, or just around it for positive ones.
+ */
+export const createSetbackZone = (rings: number[][][], distanceMetres: number): number[][][][] => {
+  const buffered = bufferPolygon(rings, distanceMetres);
+  if (distanceMetres < 0) return subtractPolygons(rings, buffered);
+  return polygonClipping.difference(toClippingMultiPolygon(buffered), toClippingPolygon(rings));
+};
+
+/**
+ * Calculate the geodesic area of a multipolygon in square metres (holes subtracted)
+ */
+export const calculateMultiPolygonArea = (polygons: number[][][][]): number => {
+  return polygons.reduce((total, rings) => total + calculatePolygonRingsArea(rings), 0);
+};
+
+/**
+ * Find the paddocks whose area overlaps the given polygon rings
+ * Paddocks that only share an edge, or sit in one another's holes, are not reported
+ */
+export const findOverlappingPaddocks = (
+  rings: number[][][],
+  paddocks: PolygonFeature[],
+  excludeId?: string
+): PolygonFeature[] => {
+  if (rings.length === 0 || rings[0].length < 3) return [];
+
+  const bbox = getBoundingBox(rings[0]);
+
+  return paddocks.filter(paddock => {
+    if (paddock.properties.id === excludeId) return false;
+
+    const paddockRings = paddock.geometry.coordinates;
+    if (!doBoundingBoxesIntersect(bbox, getBoundingBox(paddockRings[0]))) return false;
+
+    const overlap = intersectPolygons(rings, paddockRings);
+    return calculateMultiPolygonArea(overlap) > MIN_OVERLAP_AREA;
+  });
+};
+
+// Pick the largest piece of a multipolygon, ignoring slivers
+const getLargestPolygon = (polygons: number[][][][]): number[][][] | null => {
+  let largest: number[][][] | null = null;
+  let largestArea = 0;
+  for (const rings of polygons) {
+    const area = calculatePolygonRingsArea(rings);
+    if (area > largestArea) {
+      largest = rings;
+      largestArea = area;
+    }
+  }
+
+  return largest && largestArea > MIN_OVERLAP_AREA ? largest : null;
+};
+
+/**
+ * Trim polygon rings so they no longer overlap any of the given paddocks
+ * Returns the largest remaining piece (possibly with holes where a paddock
+ * sat inside it), or null when everything is covered
+ */
+export const trimPolygonToFreeArea = (rings: number[][][], obstacles: PolygonFeature[]): number[][][] | null => {
+  return getLargestPolygon(subtractPolygons(
+    rings,
+    obstacles.map(obstacle => obstacle.geometry.coordinates)
+  ));
+};
+
+/**
+ * Clip polygon rings to a boundary (also given as rings), keeping the part inside it
+ * Returns the largest inside piece, or null when the polygon lies entirely outside
+ */
+export const clipPolygonToBoundary = (rings: number[][][], boundaryRings: number[][][]): number[][][] | null => {
+  return getLargestPolygon(intersectPolygons(rings, boundaryRings));
+};
+
+/**
+ * Find paddocks that are no longer completely within their farm, e.g. after the
+ * farm boundary was edited. Paddocks whose farm no longer exists are not reported.
+ */
+export const findPaddocksOutsideFarm = (polygons: PolygonCollection): PolygonFeature[] => {
+  const farms = new Map(getFarmBoundaries(polygons).map(farm => [farm.properties.id, farm]));
+
+  return (polygons.features as PolygonFeature[]).filter(feature => {
+    if (!feature.properties || feature.properties.type !== 'paddock') return false;
+
+    const farm = farms.get(feature.properties.parentId || '');
+    return !!farm && !isPaddockWithinFarm(feature.geometry.coordinates, farm.geometry.coordinates);
+  });
+};
+
+// How many positions to try when sliding a paddock back into its farm
+const MOVE_INTO_FARM_STEPS = 50;
+
+/**
+ * Slide a paddock in a straight line towards the middle of its farm, keeping its
+ * shape, and stop at the first position where it fits inside the farm without
+ * overlapping any obstacle. Returns null when no position along the way fits.
+ */
+export const movePaddockIntoFarm = (
+  paddockRings: number[][][],
+  farmRings: number[][][],
+  obstacles: PolygonFeature[] = []
+): number[][][] | null => {
+  const from = getPolygonVisualCenter(paddockRings);
+  const to = getPolygonVisualCenter(farmRings);
+
+  for (let step = 1; step <= MOVE_INTO_FARM_STEPS; step++) {
+    const t = step / MOVE_INTO_FARM_STEPS;
+    const offset = [(to[0] - from[0]) * t, (to[1] - from[1]) * t];
+    const moved = paddockRings.map(ring => ring.map(([lon, lat]) => [lon + offset[0], lat + offset[1]]));
+
+    if (isPaddockWithinFarm(moved, farmRings) && findOverlappingPaddocks(moved, obstacles).length === 0) {
+      return moved;
+    }
+  }
+
+  return null;
+};
+
+// Where a cut line crosses a ring: along the line (segment + fraction) and along the ring (edge + fraction)
+interface RingCrossing {
+  lineIndex: number;
+  lineT: number;
+  edgeIndex: number;
+  edgeT: number;
+  point: number[];
+}
+
+// Proper crossings of a polyline with a ring; touching at a shared vertex counts once
+const findRingCrossings = (line: number[][], ring: number[][]): RingCrossing[] => {
+  const crossings: RingCrossing[] = [];
+
+  for (let k = 0; k < line.length - 1; k++) {
+    const [a1, a2] = [line[k], line[k + 1]];
+    const r = [a2[0] - a1[0], a2[1] - a1[1]];
+
+    for (let i = 0; i < ring.length; i++) {
+      const b1 = ring[i];
+      const b2 = ring[(i + 1) % ring.length];
+      const edge = [b2[0] - b1[0], b2[1] - b1[1]];
+      const denominator = r[0] * edge[1] - r[1] * edge[0];
+
+      // Running along a fence line is not a cut
+      if (Math.abs(denominator) <= BOUNDARY_EPSILON * Math.hypot(r[0], r[1]) * Math.hypot(edge[0], edge[1])) continue;
+
+      const qp = [b1[0] - a1[0], b1[1] - a1[1]];
+      const lineT = (qp[0] * edge[1] - qp[1] * edge[0]) / denominator;
+      let edgeT = (qp[0] * r[1] - qp[1] * r[0]) / denominator;
+      if (lineT < -SEGMENT_PARAM_EPSILON || lineT > 1 + SEGMENT_PARAM_EPSILON ||
+          edgeT < -SEGMENT_PARAM_EPSILON || edgeT > 1 + SEGMENT_PARAM_EPSILON) {
+        continue;
+      }
+
+      // Describe a hit on a ring vertex as the start of the following edge
+      let edgeIndex = i;
+      let point = [b1[0] + edge[0] * edgeT, b1[1] + edge[1] * edgeT];
+      if (edgeT >= 1 - SEGMENT_PARAM_EPSILON) {
+        edgeIndex = (i + 1) % ring.length;
+        edgeT = 0;
+        point = b2;
+      } else if (edgeT <= SEGMENT_PARAM_EPSILON) {
+        edgeT = 0;
+        point = b1;
+      }
+
+      const isDuplicate = crossings.some(crossing =>
+        crossing.edgeIndex === edgeIndex && Math.abs(crossing.edgeT - edgeT) <= SEGMENT_PARAM_EPSILON
+      );
+      if (!isDuplicate) {
+        crossings.push({
+          lineIndex: k,
+          lineT,
+          edgeIndex,
+          edgeT,
+          point,
+        });
+      }
+    }
+  }
+
+  return crossings.sort((a, b) => a.lineIndex - b.lineIndex || a.lineT - b.lineT);
+};
+
+// Ring vertices passed when walking forward from one crossing to another
+const walkRingBetween = (ring: number[][], from: RingCrossing, to: RingCrossing): number[][] => {
+  const vertices: number[][] = [];
+  const sameEdgeAhead = from.edgeIndex === to.edgeIndex && to.edgeT > from.edgeT;
+  if (sameEdgeAhead) return vertices;
+
+  let index = (from.edgeIndex + 1) % ring.length;
+  for (let count = 0; count < ring.length; count++) {
+    vertices.push(ring[index]);
+    if (index === to.edgeIndex) break;
+    index = (index + 1) % ring.length;
+  }
+  return vertices;
+};
+
+/**
+ * Split a polygon given as rings in two along a drawn cut line.
+ * The line must cross the outer boundary exactly twice and must not cross a hole;
+ * holes go with the piece containing them. Returns null if the cut is not usable.
+ */
+export const splitPolygonWithLine = (rings: number[][][], line: number[][]): number[][][][] | null => {
+  if (rings.length === 0 || line.length < 2) return null;
+
+  const outer = toOpenRing(rings[0]);
+  const holes = rings.slice(1);
+  const crossings = findRingCrossings(line, outer);
+  if (crossings.length !== 2) return null;
+  if (holes.some(hole => findRingCrossings(line, toOpenRing(hole)).length > 0)) return null;
+
+  const [entry, exit] = crossings;
+  const cutPath = [entry.point, ...line.slice(entry.lineIndex + 1, exit.lineIndex + 1), exit.point];
+
+  const firstOuter = [...cutPath, ...walkRingBetween(outer, exit, entry)];
+  const secondOuter = [...[...cutPath].reverse(), ...walkRingBetween(outer, entry, exit)];
+
+  // Drop repeated points where the cut meets the boundary at an existing vertex
+  const withoutRepeats = (ring: number[][]) => ring.filter((coord, index) => {
+    const previous = ring[(index + ring.length - 1) % ring.length];
+    return Math.abs(coord[0] - previous[0]) > BOUNDARY_EPSILON || Math.abs(coord[1] - previous[1]) > BOUNDARY_EPSILON;
+  });
+
+  const pieces = [firstOuter, secondOuter].map(ring => [createClosedPolygon(withoutRepeats(ring))]);
+  if (pieces.some(piece => findSelfIntersections(piece[0]).length > 0 || calculatePolygonRingsArea(piece) <= MIN_OVERLAP_AREA)) {
+    return null;
+  }
+
+  holes.forEach(hole => {
+    const owner = pieces.find(piece => isPointInPolygon(hole[0], piece[0]));
+    if (owner) owner.push(hole);
+  });
+
+  return pieces.sort((a, b) => calculatePolygonRingsArea(b) - calculatePolygonRingsArea(a));
+};
+
+// Keep the vertices between first and last (exclusive) that Douglas-Peucker needs within tolerance
+const markDouglasPeucker = (
+  points: number[][],
+  first: number,
+  last: number,
+  toleranceSquared: number,
+  keep: boolean[]
+) => {
+  let maxDistance = 0;
+  let maxIndex = -1;
+
+  for (let i = first + 1; i < last; i++) {
+    const distance = getSegmentDistanceSquared(points[i], points[first], points[last]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      maxIndex = i;
+    }
+  }
+
+  if (maxIndex !== -1 && maxDistance > toleranceSquared) {
+    keep[maxIndex] = true;
+    markDouglasPeucker(points, first, maxIndex, toleranceSquared, keep);
+    markDouglasPeucker(points, maxIndex, last, toleranceSquared, keep);
+  }
+};
+
+// Simplify one ring between locked vertices, which are always kept
+const simplifyRing = (ring: number[][], toleranceMetres: number, isLocked: (coord: number[]) => boolean): number[][] => {
+  const open = toOpenRing(ring);
+  if (open.length <= 3) return ring;
+
+  // Measure in local metres around the ring's first vertex
+  const scaleX = METRES_PER_DEGREE_LON * Math.cos(toRadians(open[0][1]));
+  const local = open.map(coord => [(coord[0] - open[0][0]) * scaleX, (coord[1] - open[0][1]) * METRES_PER_DEGREE_LAT]);
+
+  let anchors = open.map((coord, index) => index).filter(index => isLocked(open[index]));
+  if (anchors.length < 2) {
+    // Without enough shared corners, also anchor on the vertex furthest from the first anchor
+    const origin = anchors.length === 1 ? anchors[0] : 0;
+    const distanceFromOrigin = (index: number) => getSegmentDistanceSquared(local[index], local[origin], local[origin]);
+    let furthest = origin;
+    local.forEach((point, index) => {
+      if (distanceFromOrigin(index) > distanceFromOrigin(furthest)) furthest = index;
+    });
+    anchors = [origin, furthest].sort((a, b) => a - b);
+  }
+
+  const keep = open.map((coord, index) => anchors.includes(index));
+  anchors.forEach((start, anchorIndex) => {
+    const end = anchors[(anchorIndex + 1) % anchors.length];
+    // Unroll the span so it runs forward even when it wraps past the first vertex
+    const spanLength = ((end - start + open.length - 1) % open.length) + 1;
+    const spanIndices = Array.from({ length: spanLength + 1 }, (_, i) => (start + i) % open.length);
+    const spanKeep = spanIndices.map(() => false);
+    markDouglasPeucker(spanIndices.map(index => local[index]), 0, spanLength, toleranceMetres ** 2, spanKeep);
+    spanIndices.forEach((index, i) => {
+      if (spanKeep[i]) keep[index] = true;
+    });
+  });
+
+  const simplified = open.filter((coord, index) => keep[index]);
+  return simplified.length >= 3 ? createClosedPolygon(simplified) : ring;
+};
+
+/**
+ * Count the distinct vertices of a polygon given as rings (closing points not counted)
+ */
+export const countPolygonVertices = (rings: number[][][]): number => {
+  return rings.reduce((total, ring) => total + toOpenRing(ring).length, 0);
+};
+
+/**
+ * Simplify a polygon given as rings with Douglas-Peucker, to within toleranceMetres.
+ * Vertices lying on the boundary of a neighbouring feature are kept, so shared
+ * fence lines stay identical. If the result would be invalid the tolerance is
+ * reduced until it is not, falling back to the original rings.
+ */
+export const simplifyPolygonRings = (
+  rings: number[][][],
+  toleranceMetres: number,
+  neighbours: PolygonFeature[] = []
+): number[][][] => {
+  const bbox = getBoundingBox(rings[0]);
+  const neighbourRings = neighbours
+    .flatMap(neighbour => neighbour.geometry.coordinates)
+    .filter(ring => doBoundingBoxesIntersect(bbox, getBoundingBox(ring)));
+  const isLocked = (coord: number[]) => neighbourRings.some(ring => isPointOnPolygonBoundary(coord, ring));
+
+  for (let tolerance = toleranceMetres; tolerance >= 0.01; tolerance /= 2) {
+    const simplified = rings.map(ring => simplifyRing(ring, tolerance, isLocked));
+    if (isValidPolygonRings(simplified)) return simplified;
+  }
+
+  return rings;
+};
+
+// Binary search steps when placing an equal-area cut (halves the uncertainty each step)
+const SUBDIVIDE_SEARCH_STEPS = 40;
+
+/**
+ * Divide a multipolygon into equal-area paddocks laid out as strips or a grid.
+ * Strips run along bearingDegrees (clockwise from north); grid rows do too.
+ * Pieces are numbered left to right across the bearing, row by row, and a
+ * piece cut in two by a concave boundary comes back as separate polygons.
+ */
+export const subdivideIntoEqualAreas = (
+  polygons: number[][][][],
+  count: number,
+  layout: SubdivisionLayout,
+  bearingDegrees: number
+): number[][][][] => {
+  if (polygons.length === 0 || count < 1) return [];
+
+  // Local metres, rotated so u runs across the strips and v runs along them
+  const [originLon, originLat] = polygons[0][0][0];
+  const scaleX = METRES_PER_DEGREE_LON * Math.cos(toRadians(originLat));
+  const bearing = toRadians(bearingDegrees);
+  const along = [Math.sin(bearing), Math.cos(bearing)];
+  const across = [Math.cos(bearing), -Math.sin(bearing)];
+  const toFrame = ([lon, lat]: number[]) => {
+    const x = (lon - originLon) * scaleX;
+    const y = (lat - originLat) * METRES_PER_DEGREE_LAT;
+    return [x * across[0] + y * across[1], x * along[0] + y * along[1]];
+  };
+  const toLngLat = (u: number, v: number): [number, number] => [
+    originLon + (u * across[0] + v * along[0]) / scaleX,
+    originLat + (u * across[1] + v * along[1]) / METRES_PER_DEGREE_LAT,
+  ];
+
+  const framed = polygons.flatMap(rings => rings[0].map(toFrame));
+  const margin = 1;
+  const minU = Math.min(...framed.map(point => point[0])) - margin;
+  const maxU = Math.max(...framed.map(point => point[0])) + margin;
+  const minV = Math.min(...framed.map(point => point[1])) - margin;
+  const maxV = Math.max(...framed.map(point => point[1])) + margin;
+
+  // The part of some polygons between two cut positions on the u (across) or v (along) axis
+  const clipToBand = (shape: number[][][][], axis: 'u' | 'v', from: number, to: number): number[][][][] => {
+    const corners = axis === 'u'
+      ? [toLngLat(from, minV), toLngLat(to, minV), toLngLat(to, maxV), toLngLat(from, maxV)]
+      : [toLngLat(minU, from), toLngLat(maxU, from), toLngLat(maxU, to), toLngLat(minU, to)];
+    return polygonClipping.intersection(toClippingMultiPolygon(shape), [[...corners, corners[0]]]);
+  };
+
+  // Cut a shape into bands whose areas are in proportion to shares
+  const cutIntoBands = (shape: number[][][][], axis: 'u' | 'v', shares: number[]): number[][][][][] => {
+    const [low, high] = axis === 'u' ? [minU, maxU] : [minV, maxV];
+    const totalArea = calculateMultiPolygonArea(shape);
+    const totalShares = shares.reduce((sum, share) => sum + share, 0);
+    const bands: number[][][][][] = [];
+    let start = low;
+    let sharesSoFar = 0;
+
+    shares.forEach((share, index) => {
+      sharesSoFar += share;
+      if (index === shares.length - 1) {
+        bands.push(clipToBand(shape, axis, start, high));
+        return;
+      }
+
+      // Find where the area before the cut reaches this band's running share
+      const targetArea = totalArea * sharesSoFar / totalShares;
+      let lower = start;
+      let upper = high;
+      for (let step = 0; step < SUBDIVIDE_SEARCH_STEPS; step++) {
+        const middle = (lower + upper) / 2;
+        if (calculateMultiPolygonArea(clipToBand(shape, axis, low, middle)) < targetArea) {
+          lower = middle;
+        } else {
+          upper = middle;
+        }
+      }
+
+      const cut = (lower + upper) / 2;
+      bands.push(clipToBand(shape, axis, start, cut));
+      start = cut;
+    });
+
+    return bands;
+  };
+
+  let pieces: number[][][][][];
+  if (layout === 'strips') {
+    pieces = cutIntoBands(polygons, 'u', Array(count).fill(1));
+  } else {
+    // Rows of near-equal cell counts, each row sized by how many cells it holds
+    const rowCount = Math.max(1, Math.round(Math.sqrt(count)));
+    const cellsPerRow = Array.from({ length: rowCount }, (_, row) =>
+      Math.floor(count / rowCount) + (row < count % rowCount ? 1 : 0)
+    );
+    pieces = cutIntoBands(polygons, 'v', cellsPerRow)
+      .flatMap((row, index) => cutIntoBands(row, 'u', Array(cellsPerRow[index]).fill(1)));
+  }
+
+  return pieces
+    .flat()
+    .filter(rings => calculatePolygonRingsArea(rings) > MIN_OVERLAP_AREA);
+};
+
+/**
+ * Generate mock livestock data for paddocks
+ */
+export const generateMockLivestockData = (polygons: PolygonCollection): import('./types').LivestockData[] => {
+  const livestockTypes: import('./types').LivestockType[] = ['cattle', 'sheep']; // Only cattle and sheep
+  const livestockStatuses: import('./types').LivestockStatus[] = ['healthy', 'attention', 'breeding', 'medication'];
+  
+  return polygons.features
+    .filter(feature => feature.properties?.type === 'paddock')
+    .map(feature => {
+      const randomCount = Math.floor(Math.random() * 600) + 20; // 20-620 animals
+      const randomType = livestockTypes[Math.floor(Math.random() * livestockTypes.length)];
+      const randomStatus = livestockStatuses[Math.floor(Math.random() * livestockStatuses.length)];
+      
+      return {
+        paddockId: feature.properties!.id,
+        count: randomCount,
+        type: randomType,
+        status: randomStatus,
+        lastUpdated: new Date().toISOString()
+      };
+    });
+};
+
+/**
+ * Combine livestock records per paddock, e.g. after merging paddocks.
+ * Counts are summed; type and status come from the largest herd.
+ */
+export const groupLivestockByPaddock = (
+  livestockData: import('./types').LivestockData[]
+): Map<string, import('./types').LivestockData> => {
+  const grouped = new Map<string, import('./types').LivestockData>();
+
+  livestockData.forEach(data => {
+    const existing = grouped.get(data.paddockId);
+    if (!existing) {
+      grouped.set(data.paddockId, data);
+      return;
+    }
+
+    const largest = data.count > existing.count ? data : existing;
+    grouped.set(data.paddockId, {
+      ...largest,
+      count: existing.count + data.count,
+      lastUpdated: data.lastUpdated > existing.lastUpdated ? data.lastUpdated : existing.lastUpdated
+    });
+  });
+
+  return grouped;
+};
+
+/**
+ * Create livestock annotations from paddock polygons and livestock data
+ */
+export const createLivestockAnnotations = (
+  polygons: PolygonCollection, 
+  livestockData: import('./types').LivestockData[]
+): import('./types').LivestockAnnotation[] => {
+  const livestockMap = groupLivestockByPaddock(livestockData);
+  
+  return polygons.features
+    .filter(feature => feature.properties?.type === 'paddock')
+    .map(feature => {
+      const paddockId = feature.properties!.id;
+      const livestock = livestockMap.get(paddockId);
+      const centroid = getPolygonVisualCenter(feature.geometry.coordinates);
+      
+      if (livestock) {
+        return {
+          id: `livestock_${paddockId}`,
+          paddockId,
+          coordinates: centroid,
+          count: livestock.count,
+          type: livestock.type,
+          status: livestock.status
+        };
+      }
+      
+      // Default if no livestock data
+      return {
+        id: `livestock_${paddockId}`,
+        paddockId,
+        coordinates: centroid,
+        count: 0,
+        type: 'cattle' as import('./types').LivestockType,
+        status: 'healthy' as import('./types').LivestockStatus
+      };
+    });
+};
+
+/**
+ * Generate livestock density heatmap data for one farm (the first if farmId is not found)
+ * based on its paddocks' livestock data
+ */
+export const generateHeatmapData = (
+  polygons: PolygonCollection,
+  livestockData: import('./types').LivestockData[],
+  farmId?: string
+): import('./types').HeatmapDataPoint[] => {
+  const farmBoundaries = getFarmBoundaries(polygons);
+  const farmBoundary = farmBoundaries.find(farm => farm.properties.id === farmId) || farmBoundaries[0];
+  if (!farmBoundary) return [];
+
+  const paddocks = getPaddocksForFarm(polygons, farmBoundary.properties.id);
+  if (paddocks.length === 0) return [];
 
   const heatmapPoints: import('./types').HeatmapDataPoint[] = [];
   
   // Create livestock map for quick lookup
-  const livestockMap = new Map(livestockData.map(data => [data.paddockId, data]));
+  const livestockMap = groupLivestockByPaddock(livestockData);
   
   // Get farm boundary coordinates
-  const farmBoundary = farmBoundaries[0];
-  const farmCoords = farmBoundary.geometry.coordinates[0];
+  const farmRings = farmBoundary.geometry.coordinates;
+  const farmCoords = farmRings[0];
   
   // Calculate bounding box of farm
   const lons = farmCoords.map(coord => coord[0]);
@@ -224,15 +1789,15 @@ export const generateHeatmapData = (polygons: PolygonCollection, livestockData:
       const lon = minLon + (i * lonStep);
       const lat = minLat + (j * latStep);
       
-      // Check if point is within farm boundary
-      if (isPointInPolygon([lon, lat], farmCoords)) {
+      // Check if point is within farm boundary (and not in one of its holes)
+      if (isPointInPolygonRings([lon, lat], farmRings)) {
         let livestockDensity = 0;
         let totalInfluence = 0;
         
         // Calculate livestock density based on nearby paddocks
         for (const paddock of paddocks) {
-          const paddockCoords = paddock.geometry.coordinates[0];
-          const paddockCentroid = getPolygonCentroid(paddockCoords);
+          const paddockRings = paddock.geometry.coordinates;
+          const paddockCentroid = getPolygonRingsCentroid(paddockRings);
           const livestock = livestockMap.get(paddock.properties!.id);
           
           if (livestock && livestock.count > 0) {
@@ -242,7 +1807,7 @@ export const generateHeatmapData = (polygons: PolygonCollection, livestockData:
             );
             
             // Check if point is within this paddock
-            const isInPaddock = isPointInPolygon([lon, lat], paddockCoords);
+            const isInPaddock = isPointInPolygonRings([lon, lat], paddockRings);
             
             if (isInPaddock) {
               // High density within the paddock based on livestock count
@@ -0,0 +1,84 @@
+import { SpatialIndexEntry, SpatialIndexNode } from './types';
+
+// Bounding boxes are [minX, minY, maxX, maxY], matching getBoundingBox in mapUtils
+
+const DEFAULT_NODE_CAPACITY = 9;
+
+const mergeBoundingBoxes = (boxes: number[][]): number[] => {
+  return boxes.reduce(
+    (merged, bbox) => [
+      Math.min(merged[0], bbox[0]),
+      Math.min(merged[1], bbox[1]),
+      Math.max(merged[2], bbox[2]),
+      Math.max(merged[3], bbox[3]),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+};
+
+const intersects = (a: number[], b: number[]): boolean => {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+};
+
+// Sort-Tile-Recursive packing: slice by x, then tile each slice by y
+const packLevel = <T>(
+  items: T[],
+  getBoundingBox: (item: T) => number[],
+  capacity: number
+): T[][] => {
+  const centreX = (item: T) => (getBoundingBox(item)[0] + getBoundingBox(item)[2]) / 2;
+  const centreY = (item: T) => (getBoundingBox(item)[1] + getBoundingBox(item)[3]) / 2;
+
+  const groupCount = Math.ceil(items.length / capacity);
+  const sliceSize = capacity * Math.ceil(Math.sqrt(groupCount));
+  const byX = [...items].sort((a, b) => centreX(a) - centreX(b));
+
+  const groups: T[][] = [];
+  for (let sliceStart = 0; sliceStart < byX.length; sliceStart += sliceSize) {
+    const slice = byX.slice(sliceStart, sliceStart + sliceSize).sort((a, b) => centreY(a) - centreY(b));
+    for (let groupStart = 0; groupStart < slice.length; groupStart += capacity) {
+      groups.push(slice.slice(groupStart, groupStart + capacity));
+    }
+  }
+  return groups;
+};
+
+/**
+ * Bulk-load an R-tree over the given entries' bounding boxes
+ */
+export const buildSpatialIndex = <T>(
+  entries: SpatialIndexEntry<T>[],
+  capacity: number = DEFAULT_NODE_CAPACITY
+): SpatialIndexNode<T> => {
+  if (entries.length <= capacity) {
+    return { bbox: mergeBoundingBoxes(entries.map(entry => entry.bbox)), children: [], entries };
+  }
+
+  let nodes: SpatialIndexNode<T>[] = packLevel(entries, entry => entry.bbox, capacity).map(group => ({
+    bbox: mergeBoundingBoxes(group.map(entry => entry.bbox)),
+    children: [],
+    entries: group,
+  }));
+
+  while (nodes.length > 1) {
+    nodes = packLevel(nodes, node => node.bbox, capacity).map(group => ({
+      bbox: mergeBoundingBoxes(group.map(node => node.bbox)),
+      children: group,
+      entries: [],
+    }));
+  }
+
+  return nodes[0];
+};
+
+/**
+ * Find every item whose bounding box intersects the given box (pass [x, y, x, y] for a point)
+ */
+export const searchSpatialIndex = <T>(node: SpatialIndexNode<T>, bbox: number[]): T[] => {
+  if (!intersects(node.bbox, bbox)) return [];
+
+  return [
+    ...node.entries.filter(entry => intersects(entry.bbox, bbox)).map(entry => entry.item),
+    ...node.children.flatMap(child => searchSpatialIndex(child, bbox)),
+  ];
+};
@@ -1,5 +1,5 @@
 import { MMKV } from 'react-native-mmkv';
-import { PolygonCollection, AppState, BottomMenuMode } from './types';
+import { PolygonCollection, AppState, BottomMenuMode, InfrastructureCollection, FenceCollection } from './types';
 
 // Initialize MMKV storage
 const storage = new MMKV({
@@ -13,6 +13,9 @@ const STORAGE_KEYS = {
   SELECTED_FARM_ID: 'selectedFarmId',
   APP_STATE: 'appState',
   BOTTOM_MENU_MODE: 'bottomMenuMode',
+  SETBACK_ZONES: 'setbackZones',
+  INFRASTRUCTURE: 'infrastructure',
+  FENCES: 'fences',
   LAST_SAVED: 'lastSaved'
 } as const;
 
@@ -21,6 +24,9 @@ export interface StorageData {
   selectedFarmId: string | null;
   appState: AppState;
   bottomMenuMode: BottomMenuMode | null;
+  setbackZones: PolygonCollection;
+  infrastructure: InfrastructureCollection;
+  fences: FenceCollection;
   lastSaved: string;
 }
 
@@ -70,6 +76,33 @@ export const saveBottomMenuMode = (mode: BottomMenuMode | null): void => {
   }
 };
 
+export const saveSetbackZones = (zones: PolygonCollection): void => {
+  try {
+    storage.set(STORAGE_KEYS.SETBACK_ZONES, JSON.stringify(zones));
+    console.log('Saved setback zones to storage');
+  } catch (error) {
+    console.error('Error saving setback zones:', error);
+  }
+};
+
+export const saveInfrastructure = (infrastructure: InfrastructureCollection): void => {
+  try {
+    storage.set(STORAGE_KEYS.INFRASTRUCTURE, JSON.stringify(infrastructure));
+    console.log('Saved infrastructure to storage');
+  } catch (error) {
+    console.error('Error saving infrastructure:', error);
+  }
+};
+
+export const saveFences = (fences: FenceCollection): void => {
+  try {
+    storage.set(STORAGE_KEYS.FENCES, JSON.stringify(fences));
+    console.log('Saved fences to storage');
+  } catch (error) {
+    console.error('Error saving fences:', error);
+  }
+};
+
 // Load functions
 export const loadCompletedPolygons = (): PolygonCollection => {
   try {
@@ -126,6 +159,60 @@ export const loadBottomMenuMode = (): BottomMenuMode | null => {
   }
 };
 
+export const loadSetbackZones = (): PolygonCollection => {
+  try {
+    const data = storage.getString(STORAGE_KEYS.SETBACK_ZONES);
+    if (data) {
+      const zones = JSON.parse(data) as PolygonCollection;
+      console.log('Loaded setback zones from storage:', zones.features.length, 'features');
+      return zones;
+    }
+  } catch (error) {
+    console.error('Error loading setback zones:', error);
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: []
+  };
+};
+
+export const loadInfrastructure = (): InfrastructureCollection => {
+  try {
+    const data = storage.getString(STORAGE_KEYS.INFRASTRUCTURE);
+    if (data) {
+      const infrastructure = JSON.parse(data) as InfrastructureCollection;
+      console.log('Loaded infrastructure from storage:', infrastructure.features.length, 'features');
+      return infrastructure;
+    }
+  } catch (error) {
+    console.error('Error loading infrastructure:', error);
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: []
+  };
+};
+
+export const loadFences = (): FenceCollection => {
+  try {
+    const data = storage.getString(STORAGE_KEYS.FENCES);
+    if (data) {
+      const fences = JSON.parse(data) as FenceCollection;
+      console.log('Loaded fences from storage:', fences.features.length, 'features');
+      return fences;
+    }
+  } catch (error) {
+    console.error('Error loading fences:', error);
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: []
+  };
+};
+
 // Load all data at once
 export const loadAllData = (): StorageData => {
   const data: StorageData = {
@@ -133,6 +220,9 @@ export const loadAllData = (): StorageData => {
     selectedFarmId: loadSelectedFarmId(),
     appState: loadAppState(),
     bottomMenuMode: loadBottomMenuMode(),
+    setbackZones: loadSetbackZones(),
+    infrastructure: loadInfrastructure(),
+    fences: loadFences(),
     lastSaved: storage.getString(STORAGE_KEYS.LAST_SAVED) || 'Never'
   };
   
@@ -1,4 +1,4 @@
-import type { FeatureCollection, Polygon, Point } from 'geojson';
+import type { Feature, FeatureCollection, Polygon, Point, LineString } from 'geojson';
 
 export interface PolygonFeature {
   type: 'Feature';
@@ -6,11 +6,18 @@ export interface PolygonFeature {
     name: string;
     created: string;
     id: string;
-    type: 'farm' | 'paddock';
-    parentId?: string; // For paddocks, this is the farm boundary ID
+    type: 'farm' | 'paddock' | 'setback';
+    parentId?: string; // For paddocks and setback zones, this is the farm boundary ID
+    sourceId?: string; // For setback zones, the farm or paddock the zone follows
+    setbackDistance?: number; // For setback zones, width in metres
     purpose?: string;
     capacity?: number;
     notes?: string;
+    owner?: string; // For farms
+    propertyCode?: string; // For farms, the Property Identification Code (PIC)
+    address?: string; // For farms
+    area?: number; // Geodesic area in square metres
+    perimeter?: number; // Geodesic perimeter in metres
   };
   geometry: Polygon;
 }
@@ -20,6 +27,19 @@ export interface DrawingPoint {
   id: string;
 }
 
+// A place where a ring crosses itself; segments are the indices of the two offending edges
+export interface SelfIntersection {
+  segments: [number, number];
+  point: number[];
+}
+
+// A drawing point or vertex pulled onto a nearby feature
+export interface SnapResult {
+  coordinates: number[];
+  type: 'vertex' | 'edge';
+  featureId: string;
+}
+
 export interface PaddockInfo {
   name: string;
   purpose: string;
@@ -27,6 +47,78 @@ export interface PaddockInfo {
   notes: string;
 }
 
+export interface FarmInfo {
+  name: string;
+  owner: string;
+  propertyCode: string;
+  address: string;
+  notes: string;
+}
+
+// A paddock being split by a cut line, with details collected so far for each piece
+export interface PaddockSplit {
+  sourceId: string;
+  polygons: number[][][][];
+  pieceInfos: PaddockInfo[];
+}
+
+// Paddocks being merged into one, waiting for the merged paddock's details
+export interface PaddockMerge {
+  sourceIds: string[];
+  rings: number[][][];
+}
+
+// Effect of simplifying a polygon, shown before it is applied
+export interface SimplificationPreview {
+  vertexCountBefore: number;
+  vertexCountAfter: number;
+  areaBefore: number; // Square metres
+  areaAfter: number; // Square metres
+}
+
+// An item stored in a spatial index under its [minLon, minLat, maxLon, maxLat] bounding box
+export interface SpatialIndexEntry<T> {
+  bbox: number[];
+  item: T;
+}
+
+// R-tree node: leaves hold entries, inner nodes hold child nodes
+export interface SpatialIndexNode<T> {
+  bbox: number[];
+  children: SpatialIndexNode<T>[];
+  entries: SpatialIndexEntry<T>[];
+}
+
+// Snapshot restored by undo/redo
+export interface HistoryEntry {
+  currentPolygon: DrawingPoint[];
+  completedPolygons: PolygonCollection;
+  livestockData: LivestockData[];
+  setbackZones: PolygonCollection;
+  infrastructure: InfrastructureCollection;
+  fences: FenceCollection;
+}
+
+// Farm shapes and the records that follow paddocks, as changed by deleting a paddock
+export interface PaddockRecords {
+  completedPolygons: PolygonCollection;
+  livestockData: LivestockData[];
+  setbackZones: PolygonCollection;
+  infrastructure: InfrastructureCollection;
+}
+
+// Undo and redo snapshots, oldest first
+export interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// A history stack after stepping back or forward, and the snapshot to restore if there is one
+export interface HistoryStep {
+  stacks: HistoryStacks;
+  entry: HistoryEntry | null;
+}
+
 // Livestock types
 export interface LivestockData {
   paddockId: string;
@@ -42,12 +134,128 @@ export type LivestockStatus = 'healthy' | 'attention' | 'quarantine' | 'breeding
 export interface LivestockAnnotation {
   id: string;
   paddockId: string;
-  coordinates: number[]; // Centroid of the paddock
+  coordinates: number[]; // Visual center of the paddock
   count: number;
   type: LivestockType;
   status: LivestockStatus;
 }
 
+// Infrastructure types
+export type InfrastructureType = 'trough' | 'gate' | 'dam' | 'shed' | 'tank' | 'yard';
+export type InfrastructureStatus = 'working' | 'needs-repair' | 'out-of-service';
+
+export interface InfrastructureFeature {
+  type: 'Feature';
+  properties: {
+    id: string;
+    name: string;
+    created: string;
+    type: InfrastructureType;
+    status: InfrastructureStatus;
+    capacity?: number; // In the type's capacity unit, e.g. litres for troughs, head for yards
+    notes?: string;
+    farmId?: string; // Farm containing the point
+    paddockId?: string; // Paddock containing the point, if any
+  };
+  geometry: Point;
+}
+
+export interface InfrastructureInfo {
+  name: string;
+  type: InfrastructureType;
+  status: InfrastructureStatus;
+  capacity: string;
+  notes: string;
+}
+
+// Fence types
+export type FenceMaterial = 'barbed-wire' | 'plain-wire' | 'hinge-joint' | 'netting' | 'timber-rail' | 'steel-rail';
+export type FenceCondition = 'good' | 'fair' | 'poor';
+
+export interface FenceFeature {
+  type: 'Feature';
+  properties: {
+    id: string;
+    name: string;
+    created: string;
+    material: FenceMaterial;
+    wireCount?: number;
+    electric: boolean;
+    condition: FenceCondition;
+    notes?: string;
+    farmId?: string; // Farm the fence was drawn for
+    length?: number; // Geodesic length in metres
+  };
+  geometry: LineString;
+}
+
+export interface FenceInfo {
+  name: string;
+  material: FenceMaterial;
+  wireCount: string;
+  electric: boolean;
+  condition: FenceCondition;
+  notes: string;
+}
+
+// Total fence length of one material on a farm
+export interface FenceLengthSummary {
+  material: FenceMaterial;
+  length: number; // Metres
+  electricLength: number; // Metres of that length that is electrified
+  count: number;
+}
+
+// Everything exported from, or merged into, the app's saved data
+export interface FarmData {
+  polygons: PolygonCollection;
+  livestockData: LivestockData[];
+  infrastructure: InfrastructureCollection;
+  fences: FenceCollection;
+}
+
+// A feature read from a GeoJSON or KML file, before its properties are mapped
+export type ImportFeature = Feature<Polygon | Point | LineString>;
+
+// Exported farm data; name is a GeoJSON foreign member holding the farm name
+export type FarmDataCollection = FeatureCollection<Polygon | Point | LineString> & { name?: string };
+
+// Farm data read from an import file, waiting to be merged
+export interface ImportedFarmData {
+  polygons: PolygonFeature[];
+  livestockData: LivestockData[];
+  infrastructure: InfrastructureFeature[];
+  fences: FenceFeature[];
+  warnings: string[];
+}
+
+// Result of reading an import file; data is null when the file is rejected
+export interface ImportResult {
+  data: ImportedFarmData | null;
+  errors: string[];
+}
+
+// An imported feature that clashes with one already in the app
+export interface ImportConflict {
+  importedId: string;
+  importedName: string;
+  existingId: string;
+  existingName: string;
+  reason: 'same-id' | 'overlap';
+}
+
+// Imported data shown for review before it is merged
+export interface ImportPreview {
+  data: ImportedFarmData;
+  conflicts: ImportConflict[];
+}
+
+// How imported features with the same ID as existing ones are merged
+export type ImportMergeStrategy = 'replace' | 'keep-both';
+
+// File formats farm data can be shared as
+export type ExchangeFormat = 'geojson' | 'kml' | 'kmz';
+
 // Heatmap types
 export interface HeatmapDataPoint {
   id: string;
@@ -58,9 +266,14 @@ export interface HeatmapDataPoint {
 
 export type HeatmapType = 'livestock-density' | 'grazing-intensity' | 'pasture-health' | 'water-access';
 
-export type DrawingMode = 'farm' | 'paddock';
-export type AppState = 'initial' | 'drawing-farm' | 'farm-completed' | 'paddock-mode' | 'drawing-paddock' | 'livestock-mode' | 'heatmap-mode' | 'editing';
-export type BottomMenuMode = 'paddock' | 'livestock' | 'heatmap';
+export type SubdivisionLayout = 'strips' | 'grid';
+export type MeasurementShape = 'line' | 'area';
+export type DrawingMode = 'farm' | 'paddock' | 'hole' | 'cut' | 'fence';
+export type AppState = 'initial' | 'drawing-farm' | 'farm-completed' | 'paddock-mode' | 'drawing-paddock' | 'livestock-mode' | 'heatmap-mode' | 'editing' | 'drawing-hole' | 'drawing-cut' | 'merging' | 'simplifying' | 'setback' | 'subdividing' | 'measuring' | 'infrastructure-mode' | 'fence-mode' | 'drawing-fence';
+export type BottomMenuMode = 'paddock' | 'livestock' | 'heatmap' | 'infrastructure' | 'fence';
 
 export type PolygonCollection = FeatureCollection<Polygon>;
-export type PointCollection = FeatureCollection<Point>; 
\ No newline at end of file
+export type PointCollection = FeatureCollection<Point>;
+export type LineCollection = FeatureCollection<LineString>;
+export type InfrastructureCollection = FeatureCollection<Point, InfrastructureFeature['properties']>;
+export type FenceCollection = FeatureCollection<LineString, FenceFeature['properties']>;